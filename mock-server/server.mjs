@@ -0,0 +1,326 @@
+// Stand-in market data backend for local development.
+// Serves the same REST API as HttpMarketDataProvider expects, from stocks.json,
+// fundamentals.json and corporate-actions.json, and a simulated WebSocket quote feed on /stream for QuoteStreamService.
+// Usage: npm run mock-server [-- --port 3001]
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+
+const portArg = process.argv.indexOf('--port');
+const PORT = Number(portArg > -1 ? process.argv[portArg + 1] : process.env.PORT) || 3001;
+
+const stocks = JSON.parse(readFileSync(new URL('./stocks.json', import.meta.url), 'utf8'));
+const fundamentals = JSON.parse(
+  readFileSync(new URL('./fundamentals.json', import.meta.url), 'utf8')
+);
+const corporateActions = JSON.parse(
+  readFileSync(new URL('./corporate-actions.json', import.meta.url), 'utf8')
+);
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const HISTORY_RANGES = {
+  '1D': { bars: 78, intervalMs: 5 * MINUTE_MS },
+  '1W': { bars: 35, intervalMs: 60 * MINUTE_MS },
+  '1M': { bars: 22, intervalMs: DAY_MS },
+  '3M': { bars: 63, intervalMs: DAY_MS },
+  '1Y': { bars: 252, intervalMs: DAY_MS },
+  ALL: { bars: 260, intervalMs: 7 * DAY_MS },
+};
+
+function seededRandom(seed) {
+  let state = [...seed].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function history(stock, range) {
+  const { bars, intervalMs } = HISTORY_RANGES[range];
+  const volatility = range === '1D' || range === '1W' ? 0.003 : 0.015;
+  const random = seededRandom(`${stock.symbol}-${range}`);
+  const now = Date.now();
+  const result = [];
+  let close = stock.price;
+  for (let i = 0; i < bars; i++) {
+    const open = close / (1 + (random() - 0.5) * 2 * volatility);
+    const high = Math.max(open, close) * (1 + random() * volatility);
+    const low = Math.min(open, close) * (1 - random() * volatility);
+    result.unshift({
+      timestamp: new Date(now - i * intervalMs).toISOString(),
+      open: Math.round(open * 100) / 100,
+      high: Math.round(high * 100) / 100,
+      low: Math.round(low * 100) / 100,
+      close: Math.round(close * 100) / 100,
+      volume: Math.round((stock.volume / bars) * (0.5 + random())),
+    });
+    close = open;
+  }
+  return result;
+}
+
+// Stocks are served at the live price of the simulated feed below
+function findStock(symbol) {
+  const stock = stocks.find(s => s.symbol === symbol.toUpperCase());
+  const quote = stock && prices.get(stock.symbol);
+  if (!quote) {
+    return stock;
+  }
+  const price = Math.round(quote.price * 100) / 100;
+  const change = Math.round((price - quote.previousClose) * 100) / 100;
+  return { ...stock, price, change, changePercent: change / quote.previousClose };
+}
+
+// Same rankings as MockDataService.getMockMovers, at live prices
+function movers(category) {
+  const live = stocks.map(stock => findStock(stock.symbol));
+  switch (category) {
+    case 'gainers':
+      return live
+        .filter(stock => stock.changePercent > 0)
+        .sort((a, b) => b.changePercent - a.changePercent);
+    case 'losers':
+      return live
+        .filter(stock => stock.changePercent < 0)
+        .sort((a, b) => a.changePercent - b.changePercent);
+    case 'active':
+      return live.sort((a, b) => b.volume - a.volume);
+    case 'trending':
+      return live.sort(
+        (a, b) => Math.abs(b.changePercent) * b.volume - Math.abs(a.changePercent) * a.volume
+      );
+    default:
+      return null;
+  }
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  const path = url.pathname.replace(/^\/api/, '');
+  const [, resource, param] = path.split('/');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { 'Access-Control-Allow-Origin': '*' });
+    return res.end();
+  }
+
+  if (resource === 'quotes' && param) {
+    const stock = findStock(decodeURIComponent(param));
+    return stock ? send(res, 200, stock) : send(res, 404, { message: 'Unknown symbol' });
+  }
+  if (resource === 'quotes') {
+    const symbols = (url.searchParams.get('symbols') ?? '').split(',').filter(Boolean);
+    return send(res, 200, symbols.map(findStock).filter(Boolean));
+  }
+  if (resource === 'search') {
+    // Every stock is a candidate; the app ranks them and drops non-matches
+    const term = (url.searchParams.get('q') ?? '').trim();
+    return send(res, 200, term ? stocks.map(stock => findStock(stock.symbol)) : []);
+  }
+  if (resource === 'trending') {
+    return send(res, 200, movers('trending').slice(0, 10));
+  }
+  if (resource === 'movers' && param) {
+    const result = movers(param);
+    return result ? send(res, 200, result) : send(res, 404, { message: 'Unknown category' });
+  }
+  if (resource === 'history' && param) {
+    const stock = findStock(decodeURIComponent(param));
+    const range = url.searchParams.get('range') ?? '1M';
+    if (!stock || !HISTORY_RANGES[range]) {
+      return send(res, 404, { message: 'Unknown symbol or range' });
+    }
+    return send(res, 200, history(stock, range));
+  }
+  if (resource === 'fx') {
+    return send(res, 200, {
+      base: 'USD',
+      rates: { USD: 1, AUD: 1.52, EUR: 0.92, GBP: 0.79, NZD: 1.66, CAD: 1.37 },
+      asOf: new Date().toISOString(),
+    });
+  }
+  if (resource === 'fundamentals' && param) {
+    const symbol = decodeURIComponent(param).toUpperCase();
+    const result = fundamentals.find(f => f.symbol === symbol);
+    return result ? send(res, 200, result) : send(res, 404, { message: 'Unknown symbol' });
+  }
+
+  if (resource === 'corporate-actions') {
+    // Fixture dates are days before today, so they always fall inside the app's history
+    const symbols = (url.searchParams.get('symbols') ?? '').split(',').filter(Boolean);
+    return send(
+      res,
+      200,
+      corporateActions
+        .filter(action => symbols.includes(action.symbol))
+        .map(({ daysAgo, ...action }) => ({
+          ...action,
+          effectiveDate: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+        }))
+    );
+  }
+
+  send(res, 404, { message: 'Not found' });
+});
+
+// --- Simulated quote feed -------------------------------------------------
+// Minimal WebSocket (RFC 6455) implementation: text frames only, no extensions.
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const TICK_INTERVAL_MS = 1000;
+
+// Random-walk prices around each stock's previous close
+const prices = new Map(
+  stocks.map(stock => [
+    stock.symbol,
+    { price: stock.price, previousClose: stock.price - stock.change, volume: stock.volume },
+  ])
+);
+
+function encodeFrame(text) {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x81, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Returns the complete frames in the buffer and whatever bytes are left over
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+const clients = new Set();
+
+server.on('upgrade', (req, socket) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  const key = req.headers['sec-websocket-key'];
+  if (url.pathname !== '/stream' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1')
+    .update(key + WS_GUID)
+    .digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const client = { socket, symbols: new Set() };
+  clients.add(client);
+  let pending = Buffer.alloc(0);
+
+  socket.on('data', chunk => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    frames.forEach(({ opcode, payload }) => {
+      if (opcode === 0x8) {
+        socket.end(Buffer.from([0x88, 0]));
+      } else if (opcode === 0x9) {
+        socket.write(Buffer.concat([Buffer.from([0x8a, payload.length]), payload]));
+      } else if (opcode === 0x1) {
+        try {
+          const message = JSON.parse(payload.toString('utf8'));
+          if (message.type === 'subscribe' && Array.isArray(message.symbols)) {
+            message.symbols.forEach(symbol => client.symbols.add(symbol));
+          }
+        } catch {
+          // Ignore malformed client messages
+        }
+      }
+    });
+  });
+  socket.on('close', () => clients.delete(client));
+  socket.on('error', () => clients.delete(client));
+});
+
+setInterval(() => {
+  const timestamp = new Date().toISOString();
+  prices.forEach(quote => {
+    quote.price = Math.max(0.01, quote.price * (1 + (Math.random() - 0.5) * 0.004));
+    quote.volume += Math.round(Math.random() * 5000);
+  });
+
+  clients.forEach(client => {
+    client.symbols.forEach(symbol => {
+      const quote = prices.get(symbol);
+      if (!quote) return;
+      const price = Math.round(quote.price * 100) / 100;
+      const change = Math.round((price - quote.previousClose) * 100) / 100;
+      client.socket.write(
+        encodeFrame(
+          JSON.stringify({
+            type: 'tick',
+            symbol,
+            price,
+            change,
+            changePercent: change / quote.previousClose,
+            volume: quote.volume,
+            timestamp,
+          })
+        )
+      );
+    });
+  });
+}, TICK_INTERVAL_MS);
+
+server.listen(PORT, () => {
+  console.log(`Mock market data server on http://localhost:${PORT}/api`);
+  console.log(`Simulated quote feed on ws://localhost:${PORT}/stream`);
+});
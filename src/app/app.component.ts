@@ -1,5 +1,10 @@
-import { Component } from '@angular/core';
+import { Component, inject } from '@angular/core';
 import { IonApp, IonRouterOutlet } from '@ionic/angular/standalone';
+import { CachedMarketDataProvider } from './core/services/cached-market-data.provider';
+import { CorporateActionService } from './core/services/corporate-action.service';
+import { QuoteStoreService } from './core/services/quote-store.service';
+import { QuoteStreamService } from './core/services/quote-stream.service';
+import { RecurringInvestmentService } from './core/services/recurring-investment.service';
 
 @Component({
   selector: 'app-root',
@@ -8,5 +13,23 @@ import { IonApp, IonRouterOutlet } from '@ionic/angular/standalone';
   imports: [IonApp, IonRouterOutlet],
 })
 export class AppComponent {
-  constructor() {}
+  private recurringInvestmentService = inject(RecurringInvestmentService);
+  private quoteStream = inject(QuoteStreamService);
+  private quoteStore = inject(QuoteStoreService);
+  private marketDataCache = inject(CachedMarketDataProvider);
+  private corporateActionService = inject(CorporateActionService);
+
+  constructor() {
+    // Show the last known prices straight away; fresher quotes replace them as they arrive
+    this.quoteStore.update(this.marketDataCache.getLastKnownQuotes());
+
+    // Stream live prices for everything the app shows or values
+    this.quoteStream.connect();
+
+    // Catch up on recurring investments missed while the app was closed
+    this.recurringInvestmentService.startScheduler();
+
+    // Apply dividends, splits and other corporate actions announced since the last launch
+    this.corporateActionService.refresh();
+  }
 }
@@ -0,0 +1,13 @@
+import { CommonModule } from '@angular/common';
+import { Component, Input } from '@angular/core';
+import { HighlightSegment } from '../../../core/interfaces';
+
+@Component({
+  selector: 'app-highlight-text',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './highlight-text.component.html',
+})
+export class HighlightTextComponent {
+  @Input() segments: HighlightSegment[] = [];
+}
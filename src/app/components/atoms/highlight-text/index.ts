@@ -0,0 +1 @@
+export * from './highlight-text.component';
@@ -1,2 +1,3 @@
 export * from './chip';
+export * from './highlight-text';
 export * from './input';
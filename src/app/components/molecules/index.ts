@@ -1,5 +1,8 @@
 export * from './card/card.component';
+export * from './key-stats/key-stats.component';
 export * from './main-price/main-price.component';
+export * from './market-status-banner/market-status-banner.component';
+export * from './price-chart/price-chart.component';
 export * from './stock-avatar/stock-avatar.component';
 export * from './stock-card/stock-card.component';
 export * from './swipe-button/swipe-button.component';
@@ -0,0 +1,42 @@
+import { CommonModule, getCurrencySymbol } from '@angular/common';
+import { Component, Input } from '@angular/core';
+import { APP_CONSTANTS } from '../../../core/constants/app.constants';
+import { Fundamentals } from '../../../core/interfaces';
+
+// Suffixes for abbreviated dollar amounts, largest first
+const MAGNITUDES: { value: number; suffix: string }[] = [
+  { value: 1e12, suffix: 't' },
+  { value: 1e9, suffix: 'b' },
+  { value: 1e6, suffix: 'm' },
+  { value: 1e3, suffix: 'k' },
+];
+
+/**
+ * Grid of company fundamentals with an optional "About" description.
+ * Missing figures show as a dash.
+ */
+@Component({
+  selector: 'app-key-stats',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './key-stats.component.html',
+})
+export class KeyStatsComponent {
+  @Input() fundamentals: Fundamentals | null = null;
+  @Input() isLoading = false;
+  @Input() showDescription = true;
+  @Input() currency: string | undefined;
+
+  /** Abbreviated amount in the stock's currency, e.g. "$36.9b" */
+  formatCompact(value: number | undefined): string {
+    if (value === undefined) {
+      return '—';
+    }
+    const symbol = getCurrencySymbol(this.currency ?? APP_CONSTANTS.DEFAULT_CURRENCY, 'wide');
+    const magnitude = MAGNITUDES.find(m => Math.abs(value) >= m.value);
+    if (!magnitude) {
+      return `${symbol}${value.toFixed(2)}`;
+    }
+    return `${symbol}${(value / magnitude.value).toFixed(1)}${magnitude.suffix}`;
+  }
+}
@@ -1,15 +1,81 @@
-import { Component, Input } from '@angular/core';
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Portfolio } from '../../../core/interfaces';
+import {
+  HistoryRange,
+  PerformanceHistory,
+  PerformancePeriod,
+  Portfolio,
+  PriceBar,
+} from '../../../core/interfaces';
+import { PriceChartComponent } from '../price-chart/price-chart.component';
+
+const PERFORMANCE_PERIODS: PerformancePeriod[] = ['1W', '1M', '3M', '1Y', 'ALL'];
+
+const PERIOD_LABELS: Record<PerformancePeriod, string> = {
+  '1W': 'past week',
+  '1M': 'past month',
+  '3M': 'past 3 months',
+  '1Y': 'past year',
+  ALL: 'all time',
+};
 
 @Component({
   selector: 'app-main-price',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, PriceChartComponent],
   templateUrl: './main-price.component.html',
 })
-export class MainPriceComponent {
+export class MainPriceComponent implements OnChanges {
   @Input() portfolio!: Portfolio;
+  @Input() performance: PerformanceHistory | null = null;
+  @Input() period: PerformancePeriod = '1M';
+  @Input() currencies: string[] = [];
+  @Output() periodChange = new EventEmitter<PerformancePeriod>();
+  @Output() baseCurrencyChange = new EventEmitter<string>();
+
+  readonly periods = PERFORMANCE_PERIODS;
+
+  // Daily values as chart bars, and the one under the crosshair while scrubbing
+  valueBars: PriceBar[] = [];
+  scrubbedBar: PriceBar | null = null;
+
+  ngOnChanges() {
+    this.valueBars = (this.performance?.snapshots ?? []).map(snapshot => ({
+      timestamp: snapshot.date,
+      open: snapshot.value,
+      high: snapshot.value,
+      low: snapshot.value,
+      close: snapshot.value,
+      volume: 0,
+    }));
+  }
+
+  /** Available cash not already held for pending orders */
+  get buyingPower(): number {
+    return Math.max(0, this.portfolio.cash.availableCash - this.portfolio.cash.heldCash);
+  }
+
+  /** Time of the oldest stale holding price, when the equity isn't fully live */
+  get pricesAsOf(): string | null {
+    const staleQuotes = this.portfolio.holdings
+      .filter(holding => holding.stock.isStale && holding.stock.quotedAt)
+      .map(holding => holding.stock.quotedAt!)
+      .sort();
+    return staleQuotes[0] ?? null;
+  }
+
+  get periodLabel(): string {
+    return PERIOD_LABELS[this.period];
+  }
+
+  onPeriodChange(range: HistoryRange) {
+    this.scrubbedBar = null;
+    this.periodChange.emit(range as PerformancePeriod);
+  }
+
+  onBaseCurrencyChange(event: Event) {
+    this.baseCurrencyChange.emit((event.target as HTMLSelectElement).value);
+  }
 
   getChangeClasses(change: number): string {
     if (change > 0) {
@@ -0,0 +1,24 @@
+import { CommonModule } from '@angular/common';
+import { Component, Input } from '@angular/core';
+import { MarketStatus } from '../../../core/interfaces';
+
+@Component({
+  selector: 'app-market-status-banner',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './market-status-banner.component.html',
+})
+export class MarketStatusBannerComponent {
+  @Input() status: MarketStatus | null = null;
+
+  get dotClass(): string {
+    if (!this.status) {
+      return 'bg-gray-400';
+    }
+    if (this.status.isOpen) {
+      return 'bg-success-500';
+    }
+    // Extended-hours sessions are amber, fully closed is grey
+    return this.status.session === 'closed' ? 'bg-gray-400' : 'bg-yellow-400';
+  }
+}
@@ -0,0 +1,211 @@
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { HistoryRange, PriceBar } from '../../../core/interfaces';
+
+export type ChartMode = 'line' | 'candlestick';
+
+export const CHART_RANGES: HistoryRange[] = ['1D', '1W', '1M', '3M', '1Y', 'ALL'];
+
+// Size of the SVG viewBox; the chart stretches to fill its container
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const SPARKLINE_WIDTH = 60;
+const SPARKLINE_HEIGHT = 20;
+
+// Fraction of the price range left empty above and below the series
+const VERTICAL_PADDING = 0.08;
+
+interface Candle {
+  x: number;
+  bodyY: number;
+  bodyHeight: number;
+  wickTop: number;
+  wickBottom: number;
+  isUp: boolean;
+}
+
+/**
+ * Dependency-free SVG price chart. Renders close prices as a line or OHLC bars
+ * as candlesticks, with a range selector and drag-to-scrub crosshair. Set
+ * `sparkline` for a compact, non-interactive line.
+ */
+@Component({
+  selector: 'app-price-chart',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './price-chart.component.html',
+})
+export class PriceChartComponent implements OnChanges {
+  @Input() bars: PriceBar[] = [];
+  @Input() range: HistoryRange = '1D';
+  @Input() mode: ChartMode = 'line';
+  @Input() sparkline = false;
+  @Input() isLoading = false;
+  @Input() ranges: HistoryRange[] = CHART_RANGES;
+  @Input() showModeToggle = true;
+  @Input() showReadout = true;
+  @Input() currency: string | undefined;
+  @Output() rangeChange = new EventEmitter<HistoryRange>();
+  @Output() modeChange = new EventEmitter<ChartMode>();
+  /** Bar under the crosshair while scrubbing, then null when the pointer lifts */
+  @Output() scrub = new EventEmitter<PriceBar | null>();
+
+  width = CHART_WIDTH;
+  height = CHART_HEIGHT;
+  linePath = '';
+  candles: Candle[] = [];
+  candleWidth = 0;
+  private minPrice = 0;
+  private maxPrice = 0;
+
+  // Index of the bar under the crosshair while scrubbing
+  scrubIndex: number | null = null;
+
+  ngOnChanges() {
+    this.width = this.sparkline ? SPARKLINE_WIDTH : CHART_WIDTH;
+    this.height = this.sparkline ? SPARKLINE_HEIGHT : CHART_HEIGHT;
+    // Live updates keep the crosshair in place unless its bar has gone
+    if (this.scrubIndex !== null && this.scrubIndex >= this.bars.length) {
+      this.scrubIndex = null;
+    }
+    this.buildGeometry();
+  }
+
+  get isUp(): boolean {
+    return this.lastClose >= this.firstClose;
+  }
+
+  get firstClose(): number {
+    return this.bars[0]?.close ?? 0;
+  }
+
+  get lastClose(): number {
+    return this.bars[this.bars.length - 1]?.close ?? 0;
+  }
+
+  /** Bar under the crosshair, or the latest bar when not scrubbing */
+  get activeBar(): PriceBar | undefined {
+    return this.bars[this.scrubIndex ?? this.bars.length - 1];
+  }
+
+  /** Change from the start of the range to the active bar */
+  get activeChange(): number {
+    return (this.activeBar?.close ?? 0) - this.firstClose;
+  }
+
+  get activeChangePercent(): number {
+    return this.firstClose ? this.activeChange / this.firstClose : 0;
+  }
+
+  get crosshairX(): number {
+    return this.scrubIndex === null ? 0 : this.xFor(this.scrubIndex);
+  }
+
+  get crosshairY(): number {
+    return this.activeBar ? this.yFor(this.activeBar.close) : 0;
+  }
+
+  get timeFormat(): string {
+    return this.range === '1D' || this.range === '1W' ? 'MMM d, h:mm a' : 'MMM d, y';
+  }
+
+  selectRange(range: HistoryRange) {
+    if (range !== this.range) {
+      this.rangeChange.emit(range);
+    }
+  }
+
+  toggleMode() {
+    this.modeChange.emit(this.mode === 'line' ? 'candlestick' : 'line');
+  }
+
+  onPointerDown(event: PointerEvent) {
+    if (this.sparkline || !this.bars.length) {
+      return;
+    }
+    (event.currentTarget as Element).setPointerCapture?.(event.pointerId);
+    this.scrubTo(event);
+  }
+
+  onPointerMove(event: PointerEvent) {
+    if (this.scrubIndex !== null) {
+      this.scrubTo(event);
+    }
+  }
+
+  onPointerUp() {
+    if (this.scrubIndex !== null) {
+      this.scrubIndex = null;
+      this.scrub.emit(null);
+    }
+  }
+
+  private scrubTo(event: PointerEvent) {
+    const rect = (event.currentTarget as Element).getBoundingClientRect();
+    if (!rect.width) {
+      return;
+    }
+    const fraction = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    const index = this.bars.length === 1 ? 0 : Math.round(fraction * (this.bars.length - 1));
+    if (index !== this.scrubIndex) {
+      this.scrubIndex = index;
+      this.scrub.emit(this.bars[index] ?? null);
+    }
+  }
+
+  private buildGeometry() {
+    this.linePath = '';
+    this.candles = [];
+    this.candleWidth = 0;
+    if (!this.bars.length) {
+      return;
+    }
+
+    const isCandlestick = this.mode === 'candlestick' && !this.sparkline;
+    const lows = this.bars.map(bar => (isCandlestick ? bar.low : bar.close));
+    const highs = this.bars.map(bar => (isCandlestick ? bar.high : bar.close));
+    const min = Math.min(...lows);
+    const max = Math.max(...highs);
+    const padding = (max - min || max || 1) * VERTICAL_PADDING;
+    this.minPrice = min - padding;
+    this.maxPrice = max + padding;
+
+    if (isCandlestick) {
+      this.candleWidth = Math.max(1, (this.width / this.bars.length) * 0.6);
+      this.candles = this.bars.map((bar, i) => {
+        const top = this.yFor(Math.max(bar.open, bar.close));
+        const bottom = this.yFor(Math.min(bar.open, bar.close));
+        return {
+          x: this.xFor(i),
+          bodyY: top,
+          bodyHeight: Math.max(1, bottom - top),
+          wickTop: this.yFor(bar.high),
+          wickBottom: this.yFor(bar.low),
+          isUp: bar.close >= bar.open,
+        };
+      });
+      return;
+    }
+
+    this.linePath = this.bars
+      .map(
+        (bar, i) =>
+          `${i === 0 ? 'M' : 'L'}${this.xFor(i).toFixed(1)},${this.yFor(bar.close).toFixed(1)}`
+      )
+      .join(' ');
+  }
+
+  private xFor(index: number): number {
+    if (this.bars.length === 1) {
+      return this.width / 2;
+    }
+    // Candles are inset by half a body so the first and last aren't clipped
+    const inset = this.candleWidth / 2;
+    return inset + (index / (this.bars.length - 1)) * (this.width - inset * 2);
+  }
+
+  private yFor(price: number): number {
+    const range = this.maxPrice - this.minPrice || 1;
+    return this.height - ((price - this.minPrice) / range) * this.height;
+  }
+}
@@ -1,16 +1,20 @@
 import { CommonModule } from '@angular/common';
-import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { Component, EventEmitter, Input, OnChanges, Output, inject } from '@angular/core';
 import { IonicModule } from '@ionic/angular';
-import { Stock } from '../../../core/interfaces';
+import { PriceBar, Stock } from '../../../core/interfaces';
+import { MARKET_DATA_PROVIDER } from '../../../core/services/market-data.token';
+import { PriceChartComponent } from '../price-chart/price-chart.component';
 import { StockAvatarComponent } from '../stock-avatar/stock-avatar.component';
 
 @Component({
   selector: 'app-stock-card',
   standalone: true,
-  imports: [CommonModule, IonicModule, StockAvatarComponent],
+  imports: [CommonModule, IonicModule, PriceChartComponent, StockAvatarComponent],
   templateUrl: './stock-card.component.html',
 })
-export class StockCardComponent {
+export class StockCardComponent implements OnChanges {
+  private marketData = inject(MARKET_DATA_PROVIDER);
+
   @Input() stock!: Stock;
   @Input() videoButton = false;
   @Input() ipoPlacement = false;
@@ -21,8 +25,19 @@ export class StockCardComponent {
   @Input() showChangePill = true;
   @Input() showChangeText = true;
   @Input() showTypePill = true;
+  @Input() showSparkline = false;
   @Output() cardClick = new EventEmitter<string>();
 
+  sparklineBars: PriceBar[] = [];
+  private sparklineSymbol: string | null = null;
+
+  ngOnChanges() {
+    // Quote updates replace the stock object, so only refetch when the symbol changes
+    if (this.showSparkline && this.stock && this.stock.symbol !== this.sparklineSymbol) {
+      this.loadSparkline(this.stock.symbol);
+    }
+  }
+
   onCardClick() {
     this.cardClick.emit(this.stock.symbol);
   }
@@ -35,4 +50,18 @@ export class StockCardComponent {
     }
     return 'text-gray-500';
   }
+
+  private loadSparkline(symbol: string) {
+    this.sparklineSymbol = symbol;
+    this.sparklineBars = [];
+    this.marketData.getHistory(symbol, '1D').subscribe({
+      next: bars => {
+        if (symbol === this.sparklineSymbol) {
+          this.sparklineBars = bars;
+        }
+      },
+      // A missing sparkline isn't worth interrupting the user for
+      error: () => (this.sparklineBars = []),
+    });
+  }
 }
@@ -34,6 +34,8 @@ export class SwipeButtonComponent implements AfterViewInit, OnDestroy {
   private maxTranslate = 0;
   private currentTranslateX = 0;
   private isCompleted = false;
+  // Set once a drag has emitted, so one long drag can't emit twice
+  private hasSwipedThisGesture = false;
 
   constructor() {}
 
@@ -64,10 +66,11 @@ export class SwipeButtonComponent implements AfterViewInit, OnDestroy {
       gestureName: 'swipe-button',
       onStart: () => {
         if (this.disabled || this.isCompleted) return;
+        this.hasSwipedThisGesture = false;
         ballElement.style.transition = 'none';
       },
       onMove: ev => {
-        if (this.disabled || this.isCompleted) return;
+        if (this.disabled || this.isCompleted || this.hasSwipedThisGesture) return;
 
         // Constrain movement within button bounds
         this.currentTranslateX = Math.max(0, Math.min(ev.deltaX, this.maxTranslate));
@@ -79,7 +82,7 @@ export class SwipeButtonComponent implements AfterViewInit, OnDestroy {
         }
       },
       onEnd: () => {
-        if (this.disabled || this.isCompleted) return;
+        if (this.disabled || this.isCompleted || this.hasSwipedThisGesture) return;
 
         ballElement.style.transition = 'transform 0.3s ease-out';
 
@@ -97,6 +100,7 @@ export class SwipeButtonComponent implements AfterViewInit, OnDestroy {
     if (this.isCompleted || this.disabled) return;
 
     this.isCompleted = true;
+    this.hasSwipedThisGesture = true;
     const ballElement = this.swipeBall.nativeElement;
 
     // Animate to complete position
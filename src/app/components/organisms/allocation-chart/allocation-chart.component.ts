@@ -0,0 +1,76 @@
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { APP_CONSTANTS } from '../../../core/constants/app.constants';
+import { Allocation, AllocationGrouping, AllocationSlice } from '../../../core/interfaces';
+
+// One color per slice, in order of size; MAX_ALLOCATION_SLICES keeps within it
+const SLICE_COLORS = ['#141414', '#13D4A6', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6'];
+
+// The ring's circumference is 100, so dash lengths are percentages
+const RING_RADIUS = 100 / (2 * Math.PI);
+
+interface Segment {
+  slice: AllocationSlice;
+  color: string;
+  dashArray: string;
+  dashOffset: number;
+}
+
+/**
+ * Donut chart and legend of the portfolio allocation, with a grouping
+ * selector. Tapping a slice or legend row selects it; tapping it again
+ * clears the selection.
+ */
+@Component({
+  selector: 'app-allocation-chart',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './allocation-chart.component.html',
+})
+export class AllocationChartComponent implements OnChanges {
+  @Input() allocation: Allocation | null = null;
+  @Input() baseCurrency: string = APP_CONSTANTS.DEFAULT_BASE_CURRENCY;
+  @Input() selectedKey: string | null = null;
+  @Output() groupingChange = new EventEmitter<AllocationGrouping>();
+  @Output() sliceSelect = new EventEmitter<AllocationSlice | null>();
+
+  groupings: { value: AllocationGrouping; label: string }[] = [
+    { value: 'holding', label: 'Holding' },
+    { value: 'sector', label: 'Sector' },
+    { value: 'type', label: 'Type' },
+    { value: 'currency', label: 'Currency' },
+  ];
+  radius = RING_RADIUS;
+  threshold = APP_CONSTANTS.CONCENTRATION_WARNING_THRESHOLD;
+  segments: Segment[] = [];
+
+  ngOnChanges() {
+    // Slices are drawn clockwise from twelve o'clock
+    let start = 0;
+    this.segments = (this.allocation?.slices ?? []).map((slice, i) => {
+      const length = slice.weight * 100;
+      const segment: Segment = {
+        slice,
+        color: SLICE_COLORS[i % SLICE_COLORS.length]!,
+        dashArray: `${length} ${100 - length}`,
+        dashOffset: 25 - start,
+      };
+      start += length;
+      return segment;
+    });
+  }
+
+  get selectedSlice(): AllocationSlice | undefined {
+    return this.allocation?.slices.find(slice => slice.key === this.selectedKey);
+  }
+
+  selectGrouping(grouping: AllocationGrouping) {
+    if (grouping !== this.allocation?.grouping) {
+      this.groupingChange.emit(grouping);
+    }
+  }
+
+  toggleSlice(slice: AllocationSlice) {
+    this.sliceSelect.emit(slice.key === this.selectedKey ? null : slice);
+  }
+}
@@ -1,5 +1,7 @@
 import { CommonModule } from '@angular/common';
-import { Component, Input } from '@angular/core';
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { IonicModule } from '@ionic/angular';
+import { APP_CONSTANTS } from '../../../core/constants/app.constants';
 import { StockHolding } from '../../../core/interfaces';
 import { ChipComponent } from '../../atoms/chip/chip.component';
 import { StockAvatarComponent } from '../../molecules/stock-avatar/stock-avatar.component';
@@ -7,10 +9,19 @@ import { StockAvatarComponent } from '../../molecules/stock-avatar/stock-avatar.
 @Component({
   selector: 'app-holdings-list',
   standalone: true,
-  imports: [CommonModule, ChipComponent, StockAvatarComponent],
+  imports: [CommonModule, IonicModule, ChipComponent, StockAvatarComponent],
   templateUrl: './holdings-list.component.html',
 })
 export class HoldingsListComponent {
   @Input() holdings: StockHolding[] = [];
+  @Input() baseCurrency: string = APP_CONSTANTS.DEFAULT_BASE_CURRENCY;
+  /** Name of the allocation slice the holdings are filtered to, if any */
+  @Input() filterLabel: string | null = null;
+  @Output() filterClear = new EventEmitter<void>();
   // Holdings are not clickable in the dashboard
+
+  /** Whether the holding trades in a currency other than the base currency */
+  isForeign(holding: StockHolding): boolean {
+    return (holding.stock.currency ?? APP_CONSTANTS.DEFAULT_CURRENCY) !== this.baseCurrency;
+  }
 }
@@ -1,4 +1,7 @@
+export * from './allocation-chart/allocation-chart.component';
 export * from './holdings-list/holdings-list.component';
+export * from './open-orders-list/open-orders-list.component';
 export * from './order-modal/order-modal.component';
+export * from './recurring-plans/recurring-plans.component';
 export * from './search-bar/search-bar.component';
 export * from './trending-stocks/trending-stocks.component';
@@ -0,0 +1,34 @@
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { OrderType, PendingOrder } from '../../../core/interfaces';
+import { StockAvatarComponent } from '../../molecules/stock-avatar/stock-avatar.component';
+
+@Component({
+  selector: 'app-open-orders-list',
+  standalone: true,
+  imports: [CommonModule, StockAvatarComponent],
+  templateUrl: './open-orders-list.component.html',
+})
+export class OpenOrdersListComponent {
+  @Input() orders: PendingOrder[] = [];
+  @Output() cancelOrder = new EventEmitter<string>();
+
+  private readonly typeLabels: Record<OrderType, string> = {
+    market: 'Market',
+    limit: 'Limit',
+    stop: 'Stop',
+    stop_limit: 'Stop limit',
+  };
+
+  getTypeLabel(order: PendingOrder): string {
+    // Market orders only wait in the book while the market is closed
+    if (order.request.type === 'market') {
+      return 'Market · queued for the open';
+    }
+    return this.typeLabels[order.request.type];
+  }
+
+  onCancelClick(id: string) {
+    this.cancelOrder.emit(id);
+  }
+}
@@ -1,6 +1,7 @@
 import { CommonModule } from '@angular/common';
 import {
   Component,
+  DestroyRef,
   EventEmitter,
   HostListener,
   Input,
@@ -10,22 +11,54 @@ import {
   SimpleChanges,
   inject,
 } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
 import { Router } from '@angular/router';
 import { IonicModule } from '@ionic/angular';
+import { combineLatest } from 'rxjs';
 import { APP_CONSTANTS } from '../../../core/constants/app.constants';
-import { Stock } from '../../../core/interfaces';
+import {
+  Fundamentals,
+  MarketStatus,
+  OrderEstimate,
+  OrderInputMode,
+  OrderRequest,
+  OrderSide,
+  OrderType,
+  RecurringFrequency,
+  RecurringPlan,
+  Stock,
+  TimeInForce,
+} from '../../../core/interfaces';
 import { ErrorHandlerService } from '../../../core/services/error-handler.service';
+import { FeeService } from '../../../core/services/fee.service';
+import { FxRateService } from '../../../core/services/fx-rate.service';
 import { LoadingService } from '../../../core/services/loading.service';
+import { MARKET_DATA_PROVIDER } from '../../../core/services/market-data.token';
 import { ModalService } from '../../../core/services/modal.service';
+import { OrderService } from '../../../core/services/order.service';
 import { PortfolioService } from '../../../core/services/portfolio.service';
+import { QuoteStoreService } from '../../../core/services/quote-store.service';
+import { QuoteStreamService } from '../../../core/services/quote-stream.service';
+import { RecurringInvestmentService } from '../../../core/services/recurring-investment.service';
+import { TradingCalendarService } from '../../../core/services/trading-calendar.service';
 import { InputComponent } from '../../atoms/input/input.component';
+import { KeyStatsComponent } from '../../molecules/key-stats/key-stats.component';
 import { SwipeButtonComponent } from '../../molecules/swipe-button/swipe-button.component';
+import { RecurringPlansComponent } from '../recurring-plans/recurring-plans.component';
 
 @Component({
   selector: 'app-order-modal',
   standalone: true,
-  imports: [CommonModule, IonicModule, SwipeButtonComponent, ReactiveFormsModule, InputComponent],
+  imports: [
+    CommonModule,
+    IonicModule,
+    SwipeButtonComponent,
+    ReactiveFormsModule,
+    InputComponent,
+    KeyStatsComponent,
+    RecurringPlansComponent,
+  ],
   templateUrl: './order-modal.component.html',
   styles: [
     `
@@ -63,20 +96,55 @@ import { SwipeButtonComponent } from '../../molecules/swipe-button/swipe-button.
 })
 export class OrderModalComponent implements OnInit, OnChanges {
   private portfolioService = inject(PortfolioService);
+  private orderService = inject(OrderService);
+  private recurringInvestmentService = inject(RecurringInvestmentService);
+  private tradingCalendarService = inject(TradingCalendarService);
+  private quoteStore = inject(QuoteStoreService);
+  private quoteStream = inject(QuoteStreamService);
+  private marketData = inject(MARKET_DATA_PROVIDER);
   private errorHandler = inject(ErrorHandlerService);
+  private feeService = inject(FeeService);
+  private fxRateService = inject(FxRateService);
   private loadingService = inject(LoadingService);
   private fb = inject(FormBuilder);
   private router = inject(Router);
   private modalService = inject(ModalService);
+  private destroyRef = inject(DestroyRef);
 
   @Input() isVisible = false;
   @Input() stock: Stock | null = null;
+  /** Side selected when the modal opens; sell falls back to buy without a holding */
+  @Input() initialSide: OrderSide = 'buy';
   @Output() modalClosed = new EventEmitter<void>();
   @Output() orderCompleted = new EventEmitter<void>();
 
   orderForm: FormGroup;
   totalAmount = 0;
+  side: OrderSide = 'buy';
+  orderType: OrderType = 'market';
+  timeInForce: TimeInForce = 'day';
+  inputMode: OrderInputMode = 'amount';
+  repeat: RecurringFrequency | 'once' = 'once';
+  marketStatus: MarketStatus | null = null;
+  recurringPlans: RecurringPlan[] = [];
   isAnimating = false;
+  isSubmitting = false;
+
+  /**
+   * Live pre-trade breakdown in the base currency, using the fee model the
+   * portfolio books with. Null while there's no exchange rate for the stock's
+   * currency, when the order can't be priced.
+   */
+  estimate: OrderEstimate | null = null;
+
+  // Key stats are only fetched the first time the section is expanded
+  isKeyStatsExpanded = false;
+  fundamentals: Fundamentals | null = null;
+  isFundamentalsLoading = false;
+
+  // Idempotency key for the order being entered; repeat swipes reuse it
+  private clientOrderId = crypto.randomUUID();
+  private submittedOrderId: string | null = null;
 
   // Swipe functionality
   isDragging = false;
@@ -89,29 +157,191 @@ export class OrderModalComponent implements OnInit, OnChanges {
   // Expose constants for template
   APP_CONSTANTS = APP_CONSTANTS;
 
+  readonly orderTypes: { value: OrderType; label: string }[] = [
+    { value: 'market', label: 'Market' },
+    { value: 'limit', label: 'Limit' },
+    { value: 'stop', label: 'Stop' },
+    { value: 'stop_limit', label: 'Stop limit' },
+  ];
+
+  readonly repeatOptions: { value: RecurringFrequency | 'once'; label: string }[] = [
+    { value: 'once', label: 'Once' },
+    { value: 'daily', label: 'Daily' },
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'fortnightly', label: 'Fortnightly' },
+    { value: 'monthly', label: 'Monthly' },
+  ];
+
   constructor() {
     this.orderForm = this.fb.group({
       amount: [0, [Validators.required, Validators.min(0.01)]],
       shares: [{ value: 0, disabled: true }],
+      limitPrice: [null],
+      stopPrice: [null],
+      startDate: [this.toDateInputValue(new Date())],
+      endDate: [''],
     });
   }
 
-  get amount() {
-    return this.orderForm.get('amount')?.value ?? 0;
+  get amount(): number {
+    if (this.inputMode === 'shares') {
+      return this.enteredShares * this.referencePrice;
+    }
+    return Number(this.orderForm.get('amount')?.value) || 0;
+  }
+
+  get enteredShares(): number {
+    return Number(this.orderForm.get('shares')?.value) || 0;
   }
 
+  /** Decimal places the selected instrument allows in a share quantity */
+  get quantityPrecision(): number {
+    return this.stock?.fractionalPrecision ?? APP_CONSTANTS.DEFAULT_FRACTIONAL_PRECISION;
+  }
+
+  get minOrderQuantity(): number {
+    return Math.max(APP_CONSTANTS.MIN_QUANTITY, this.stock?.minOrderQuantity ?? 0);
+  }
+
+  get sharesStep(): number {
+    return 1 / Math.pow(10, this.quantityPrecision);
+  }
+
+  get limitPrice(): number {
+    return Number(this.orderForm.get('limitPrice')?.value) || 0;
+  }
+
+  get stopPrice(): number {
+    return Number(this.orderForm.get('stopPrice')?.value) || 0;
+  }
+
+  get usesLimitPrice() {
+    return this.orderType === 'limit' || this.orderType === 'stop_limit';
+  }
+
+  get usesStopPrice() {
+    return this.orderType === 'stop' || this.orderType === 'stop_limit';
+  }
+
+  /** Price per share the order is expected to execute at */
+  get referencePrice(): number {
+    if (this.usesLimitPrice) {
+      return this.limitPrice;
+    }
+    if (this.usesStopPrice) {
+      return this.stopPrice;
+    }
+    return this.stock?.price ?? 0;
+  }
+
+  /** Share quantity of the order, cut down to the instrument's precision */
   get calculatedShares() {
-    if (this.stock && this.stock.price > 0) {
-      return this.amount / this.stock.price;
+    if (!this.stock || this.referencePrice <= 0) {
+      return 0;
     }
-    return 0;
+    const shares =
+      this.inputMode === 'shares' ? this.enteredShares : this.amount / this.referencePrice;
+    return this.floorToPrecision(shares, this.quantityPrecision);
+  }
+
+  /** Why the share quantity can't be traded, or null when it can */
+  get quantityError(): string | null {
+    const shares = this.inputMode === 'shares' ? this.enteredShares : this.calculatedShares;
+    if (shares <= 0) {
+      return null;
+    }
+    if (
+      this.inputMode === 'shares' &&
+      this.floorToPrecision(shares, this.quantityPrecision) !== shares
+    ) {
+      return this.quantityPrecision === 0
+        ? `${this.stock?.symbol} can only be traded in whole shares`
+        : `${this.stock?.symbol} allows up to ${this.quantityPrecision} decimal places`;
+    }
+    if (shares < this.minOrderQuantity) {
+      return `Minimum order is ${this.minOrderQuantity} shares`;
+    }
+    if (shares > APP_CONSTANTS.MAX_QUANTITY) {
+      return `Maximum order is ${APP_CONSTANTS.MAX_QUANTITY} shares`;
+    }
+    return null;
+  }
+
+  get heldQuantity() {
+    return this.stock ? (this.portfolioService.getHolding(this.stock.symbol)?.quantity ?? 0) : 0;
+  }
+
+  get exceedsHolding() {
+    return this.side === 'sell' && this.calculatedShares > this.heldQuantity;
+  }
+
+  get buyingPower() {
+    return this.portfolioService.getBuyingPower();
+  }
+
+  get baseCurrency(): string {
+    return this.fxRateService.getBaseCurrency();
+  }
+
+  get exceedsBuyingPower() {
+    return this.side === 'buy' && !!this.estimate && this.estimate.netAmount > this.buyingPower;
+  }
+
+  /** Recurring plans are dollar-based market buys */
+  get canRepeat() {
+    return this.side === 'buy' && this.orderType === 'market' && this.inputMode === 'amount';
+  }
+
+  get isRecurring() {
+    return this.canRepeat && this.repeat !== 'once';
+  }
+
+  get plansForStock(): RecurringPlan[] {
+    return this.recurringPlans.filter(plan => plan.stock.symbol === this.stock?.symbol);
+  }
+
+  /** Orders placed now wait in the book until the next regular session */
+  get isQueued() {
+    return !!this.marketStatus && !this.marketStatus.isOpen && !this.isRecurring;
+  }
+
+  get swipeLabel() {
+    if (this.isRecurring) {
+      return 'Swipe to schedule';
+    }
+    if (this.isQueued) {
+      return this.side === 'sell' ? 'Swipe to queue sale' : 'Swipe to queue buy';
+    }
+    return this.side === 'sell' ? 'Swipe to sell' : 'Swipe to buy';
   }
 
   ngOnInit() {
     this.setupFormSubscriptions();
+    this.recurringInvestmentService.plans$
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(plans => {
+        this.recurringPlans = plans;
+      });
+    this.quoteStore.quotes$
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.applyLatestQuote());
+    // Rates can land after the modal opens, or fail to load at all
+    combineLatest([this.fxRateService.rates$, this.fxRateService.baseCurrency$])
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.updateEstimate());
   }
 
   ngOnChanges(changes: SimpleChanges) {
+    if (changes['stock'] && this.stock) {
+      if (this.stock.symbol !== changes['stock'].previousValue?.symbol) {
+        this.isKeyStatsExpanded = false;
+        this.fundamentals = this.stock.fundamentals ?? null;
+      }
+      this.quoteStream.watch([this.stock.symbol]);
+      this.applyLatestQuote();
+      this.updateEstimate();
+    }
+
     // Reset form when modal becomes visible
     if (changes['isVisible'] && changes['isVisible'].currentValue === true) {
       this.resetForm();
@@ -122,13 +352,110 @@ export class OrderModalComponent implements OnInit, OnChanges {
     this.orderForm.reset({
       amount: 0,
       shares: { value: 0, disabled: true },
+      startDate: this.toDateInputValue(new Date()),
+      endDate: '',
     });
+    this.repeat = 'once';
+    this.setInputMode('amount');
     this.totalAmount = 0;
+    this.side = this.initialSide === 'sell' && this.heldQuantity > 0 ? 'sell' : 'buy';
+    this.setOrderType('market');
+    this.timeInForce = 'day';
+    this.marketStatus = this.tradingCalendarService.getMarketStatus(this.stock?.exchange);
+    this.clientOrderId = crypto.randomUUID();
+    this.isSubmitting = false;
+  }
+
+  toggleKeyStats() {
+    this.isKeyStatsExpanded = !this.isKeyStatsExpanded;
+    if (!this.isKeyStatsExpanded || this.fundamentals || !this.stock) {
+      return;
+    }
+
+    const symbol = this.stock.symbol;
+    this.isFundamentalsLoading = true;
+    this.marketData.getFundamentals(symbol).subscribe({
+      next: fundamentals => {
+        if (symbol === this.stock?.symbol) {
+          this.fundamentals = fundamentals;
+        }
+        this.isFundamentalsLoading = false;
+      },
+      error: () => (this.isFundamentalsLoading = false),
+    });
+  }
+
+  setSide(side: OrderSide) {
+    this.side = side;
+    this.updateEstimate();
+  }
+
+  setOrderType(type: OrderType) {
+    this.orderType = type;
+
+    // Only require the price fields the selected order type uses
+    const limitControl = this.orderForm.get('limitPrice');
+    const stopControl = this.orderForm.get('stopPrice');
+    limitControl?.setValidators(
+      this.usesLimitPrice ? [Validators.required, Validators.min(0.01)] : null
+    );
+    stopControl?.setValidators(
+      this.usesStopPrice ? [Validators.required, Validators.min(0.01)] : null
+    );
+    limitControl?.reset(this.usesLimitPrice ? this.stock?.price : null);
+    stopControl?.reset(this.usesStopPrice ? this.stock?.price : null);
+  }
+
+  setTimeInForce(timeInForce: TimeInForce) {
+    this.timeInForce = timeInForce;
+  }
+
+  setRepeat(repeat: RecurringFrequency | 'once') {
+    this.repeat = repeat;
+  }
+
+  onPausePlan(id: string) {
+    this.recurringInvestmentService.pausePlan(id);
+  }
+
+  onResumePlan(id: string) {
+    this.recurringInvestmentService.resumePlan(id);
+  }
+
+  onDeletePlan(id: string) {
+    this.recurringInvestmentService.deletePlan(id);
+  }
+
+  /**
+   * Switches which field the user types into; the other one is derived.
+   */
+  setInputMode(mode: OrderInputMode) {
+    this.inputMode = mode;
+
+    const amountControl = this.orderForm.get('amount');
+    const sharesControl = this.orderForm.get('shares');
+    const [editable, derived] =
+      mode === 'shares' ? [sharesControl, amountControl] : [amountControl, sharesControl];
+
+    editable?.setValidators(
+      mode === 'shares'
+        ? [Validators.required, Validators.min(this.minOrderQuantity)]
+        : [Validators.required, Validators.min(0.01)]
+    );
+    derived?.clearValidators();
+    editable?.enable({ emitEvent: false });
+    derived?.disable({ emitEvent: false });
+    editable?.updateValueAndValidity({ emitEvent: false });
+    this.updateEstimate();
   }
 
   private setupFormSubscriptions() {
-    this.orderForm.get('amount')?.valueChanges.subscribe(() => {
-      this.calculateShares();
+    // Every field the order size depends on re-derives it
+    ['amount', 'shares', 'limitPrice', 'stopPrice'].forEach(name => {
+      this.orderForm
+        .get(name)
+        ?.valueChanges.pipe(takeUntilDestroyed(this.destroyRef))
+        .subscribe(() => this.calculateShares());
     });
   }
 
@@ -141,10 +468,98 @@ export class OrderModalComponent implements OnInit, OnChanges {
   }
 
   private calculateShares() {
-    if (this.stock && this.stock.price > 0) {
-      const shares = this.amount / this.stock.price;
-      this.totalAmount = this.amount;
+    this.updateEstimate();
+    if (!this.stock || this.referencePrice <= 0) {
+      return;
+    }
+
+    this.totalAmount = this.amount;
+
+    // Fill in whichever field the user isn't typing into
+    if (this.inputMode === 'shares') {
+      this.orderForm
+        .get('amount')
+        ?.setValue(Math.round(this.amount * 100) / 100, { emitEvent: false });
+    } else {
+      this.orderForm.get('shares')?.setValue(this.calculatedShares, { emitEvent: false });
+    }
+  }
+
+  private updateEstimate() {
+    try {
+      this.estimate = this.feeService.estimateOrder(
+        this.side,
+        this.calculatedShares,
+        this.referencePrice,
+        this.stock?.currency
+      );
+    } catch {
+      // Converting into the base currency throws until there's a rate for it
+      this.estimate = null;
+    }
+  }
+
+  /** Moves the modal onto the latest live price, re-deriving the order size */
+  private applyLatestQuote() {
+    if (!this.stock) {
+      return;
+    }
+    const live = this.quoteStore.applyTo(this.stock);
+    if (live.price === this.stock.price && live.isStale === this.stock.isStale) {
+      return;
+    }
+    this.stock = live;
+    this.calculateShares();
+  }
+
+  private toDateInputValue(date: Date): string {
+    const month = `${date.getMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getDate()}`.padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /** Parses a yyyy-mm-dd input value as a local date */
+  private fromDateInputValue(value: string): Date | null {
+    const [year, month, day] = (value || '').split('-').map(Number);
+    if (!year || !month || !day) {
+      return null;
+    }
+    return new Date(year, month - 1, day);
+  }
+
+  private async createRecurringPlan(stock: Stock) {
+    const today = new Date();
+    const startDate = this.fromDateInputValue(this.orderForm.get('startDate')?.value) ?? today;
+    const endDate = this.fromDateInputValue(this.orderForm.get('endDate')?.value);
+    const frequency = this.repeat as RecurringFrequency;
+
+    // A plan starting today runs straight away rather than at midnight
+    const firstRun = startDate.toDateString() === today.toDateString() ? today : startDate;
+    if (endDate) {
+      endDate.setHours(23, 59, 59, 999);
     }
+
+    this.submittedOrderId = this.clientOrderId;
+    const plan = this.recurringInvestmentService.createPlan(
+      stock,
+      this.amount,
+      frequency,
+      firstRun,
+      endDate ?? undefined
+    );
+    if (!plan) {
+      this.submittedOrderId = null;
+      return;
+    }
+
+    this.orderCompleted.emit();
+    await this.errorHandler.showSuccessToast(`Recurring ${stock.symbol} investment scheduled`);
+  }
+
+  private floorToPrecision(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    // Nudge by a tiny amount so values like 0.29 * 100 don't floor to 28
+    return Math.floor(value * factor + 1e-9) / factor;
   }
 
   onOverlayClick(event: Event) {
@@ -160,6 +575,11 @@ export class OrderModalComponent implements OnInit, OnChanges {
   }
 
   closeModal() {
+    // Keep the modal open until the order in flight has been handled
+    if (this.isSubmitting) {
+      return;
+    }
+
     // Emit event first so parent can update visibility
     this.modalClosed.emit();
 
@@ -220,11 +640,12 @@ export class OrderModalComponent implements OnInit, OnChanges {
     // Check if dragged far enough to trigger purchase
     const dragPercentage = this.currentDragX / this.maxDragDistance;
 
-    if (dragPercentage >= this.swipeThreshold) {
+    if (dragPercentage >= this.swipeThreshold && !this.isSubmitting) {
       this.triggerSwipeAnimation();
+      // Wait for the animation, then run the same checks as a tap on the button
       setTimeout(() => {
-        this.completePurchase();
-      }, 300); // Wait for animation to complete
+        this.onSwipe();
+      }, 300);
     } else {
       // Reset position with smooth animation
       setTimeout(() => {
@@ -266,9 +687,13 @@ export class OrderModalComponent implements OnInit, OnChanges {
     }, 300);
   }
 
-  private async completePurchase() {
+  private async completeOrder() {
+    // Ignore swipes while a submission is in flight or already went through
+    if (this.isSubmitting || this.submittedOrderId === this.clientOrderId) {
+      return;
+    }
     if (!this.stock) {
-      this.errorHandler.handleError(new Error('No stock selected for purchase.'));
+      this.errorHandler.handleError(new Error('No stock selected for this order.'));
       return;
     }
 
@@ -277,18 +702,38 @@ export class OrderModalComponent implements OnInit, OnChanges {
       document.activeElement.blur();
     }
 
-    await this.loadingService.show('Processing purchase...');
+    const isSell = this.side === 'sell';
+    this.isSubmitting = true;
+    await this.loadingService.show(isSell ? 'Processing sale...' : 'Processing purchase...');
 
     try {
-      // Add the stock to portfolio first
-      this.portfolioService.addStock(this.stock, this.calculatedShares);
+      if (this.isRecurring) {
+        await this.createRecurringPlan(this.stock);
+        return;
+      }
+
+      const stockName = this.stock.symbol;
+
+      // The order service records rejections and reports its own errors
+      const order = this.orderService.placeOrder(this.stock, this.buildOrderRequest(this.stock));
+      if (!order) {
+        // Rejected orders keep their ID in the history, so a retry needs a new one
+        this.clientOrderId = crypto.randomUUID();
+        return;
+      }
+      this.submittedOrderId = order.id;
 
       // First emit completion to trigger parent updates
       this.orderCompleted.emit();
 
       // Show success toast
-      const stockName = this.stock?.symbol || 'Stock';
-      await this.errorHandler.showSuccessToast(`${stockName} successfully purchased`);
+      await this.errorHandler.showSuccessToast(
+        order.status === 'filled'
+          ? `${stockName} successfully ${isSell ? 'sold' : 'purchased'}`
+          : this.isQueued
+            ? `${stockName} ${isSell ? 'sell' : 'buy'} order queued until the market opens`
+            : `${stockName} ${isSell ? 'sell' : 'buy'} order placed`
+      );
 
       // If we're not on the invest page, navigate
       if (this.router.url !== '/tabs/invest') {
@@ -299,15 +744,60 @@ export class OrderModalComponent implements OnInit, OnChanges {
     } catch (error) {
       this.errorHandler.handleError(error as Error);
     } finally {
+      this.isSubmitting = false;
       this.loadingService.hide();
     }
   }
 
-  async onSwipeBuy() {
+  private buildOrderRequest(stock: Stock): OrderRequest {
+    const order: OrderRequest = {
+      clientOrderId: this.clientOrderId,
+      symbol: stock.symbol,
+      side: this.side,
+      quantity: this.calculatedShares,
+      type: this.orderType,
+      timeInForce: this.orderType === 'market' ? 'day' : this.timeInForce,
+    };
+
+    if (this.usesLimitPrice) {
+      order.limitPrice = this.limitPrice;
+    }
+    if (this.usesStopPrice) {
+      order.stopPrice = this.stopPrice;
+    }
+    return order;
+  }
+
+  async onSwipe() {
+    if (this.isSubmitting) {
+      return;
+    }
     if (!this.orderForm.valid) {
       this.errorHandler.handleError(new Error('Please fill in all required fields correctly.'));
       return;
     }
-    await this.completePurchase();
+    if (this.quantityError) {
+      this.errorHandler.handleError(new Error(this.quantityError));
+      return;
+    }
+    if (!this.estimate) {
+      this.errorHandler.handleError(
+        new Error(`No ${this.stock?.currency} exchange rate is available to price this order.`)
+      );
+      return;
+    }
+    if (this.exceedsHolding) {
+      this.errorHandler.handleError(
+        new Error(`You only hold ${this.heldQuantity} shares of ${this.stock?.symbol}.`)
+      );
+      return;
+    }
+    if (this.exceedsBuyingPower) {
+      this.errorHandler.handleError(
+        new Error(`Insufficient buying power: $${this.buyingPower.toFixed(2)} available.`)
+      );
+      return;
+    }
+    await this.completeOrder();
   }
 }
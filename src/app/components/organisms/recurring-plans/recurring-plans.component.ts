@@ -0,0 +1,39 @@
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { RecurringFrequency, RecurringPlan } from '../../../core/interfaces';
+
+@Component({
+  selector: 'app-recurring-plans',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './recurring-plans.component.html',
+})
+export class RecurringPlansComponent {
+  @Input() plans: RecurringPlan[] = [];
+  @Output() pausePlan = new EventEmitter<string>();
+  @Output() resumePlan = new EventEmitter<string>();
+  @Output() deletePlan = new EventEmitter<string>();
+
+  private readonly frequencyLabels: Record<RecurringFrequency, string> = {
+    daily: 'every day',
+    weekly: 'every week',
+    fortnightly: 'every 2 weeks',
+    monthly: 'every month',
+  };
+
+  getFrequencyLabel(plan: RecurringPlan): string {
+    return this.frequencyLabels[plan.frequency];
+  }
+
+  onPauseClick(id: string) {
+    this.pausePlan.emit(id);
+  }
+
+  onResumeClick(id: string) {
+    this.resumePlan.emit(id);
+  }
+
+  onDeleteClick(id: string) {
+    this.deletePlan.emit(id);
+  }
+}
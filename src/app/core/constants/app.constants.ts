@@ -1,8 +1,72 @@
 export const APP_CONSTANTS = {
-  // Quantity validation
+  // Quantity validation (shares per order)
   MAX_QUANTITY: 1000,
-  MIN_QUANTITY: 1,
+  MIN_QUANTITY: 0.0001,
+  DEFAULT_FRACTIONAL_PRECISION: 4,
 
   // Search
   MAX_RECENT_SEARCHES: 5,
+  SEARCH_DEBOUNCE_MS: 250,
+  MAX_SEARCH_RESULTS: 20,
+
+  // Market movers
+  TRENDING_LIMIT: 10,
+  MOVERS_PAGE_SIZE: 8,
+
+  // Pending orders
+  GTC_EXPIRY_DAYS: 90,
+
+  // Cash
+  SETTLEMENT_DAYS: 1,
+  INITIAL_DEPOSIT: 2500,
+
+  // Holdings
+  DEFAULT_COST_BASIS_METHOD: 'fifo',
+  // Share of the portfolio one holding can reach before it's flagged as concentrated
+  CONCENTRATION_WARNING_THRESHOLD: 0.25,
+  // Smaller groups beyond this are combined into "Other"
+  MAX_ALLOCATION_SLICES: 6,
+
+  // Tax reporting: financial years start on 1 July; shares held longer than this are long-term
+  DEFAULT_FINANCIAL_YEAR_START: { month: 7, day: 1 },
+  LONG_TERM_HOLDING_MONTHS: 12,
+
+  // Recurring investments
+  RECURRING_CHECK_INTERVAL_MS: 60000,
+  RECURRING_MAX_CATCH_UP_RUNS: 5,
+  MAX_RECURRING_RUNS_LOGGED: 200,
+
+  // Currencies: stocks without a currency trade in DEFAULT_CURRENCY
+  DEFAULT_CURRENCY: 'USD',
+  DEFAULT_BASE_CURRENCY: 'USD',
+
+  // Trading hours
+  DEFAULT_EXCHANGE: 'NASDAQ',
+  MARKET_STATUS_REFRESH_MS: 60000,
+
+  // Live quotes
+  QUOTE_STALE_AFTER_MS: 15000,
+  QUOTE_STALE_CHECK_MS: 5000,
+  STREAM_RECONNECT_BASE_MS: 1000,
+  STREAM_RECONNECT_MAX_MS: 30000,
+
+  // Market data cache: how long each kind of response is served without refreshing
+  MARKET_DATA_CACHE_TTL_MS: {
+    quote: 15000,
+    trending: 60000,
+    movers: 60000,
+    search: 300000,
+    history: 300000,
+    fundamentals: 21600000,
+    fx: 3600000,
+    corporateActions: 3600000,
+  },
+
+  // Default fee schedule
+  FEES: {
+    FLAT_FEE: 3,
+    PERCENTAGE_FEE: 0,
+    MINIMUM_FEE: 3,
+    FX_FEE_PERCENT: 0.007,
+  },
 } as const;
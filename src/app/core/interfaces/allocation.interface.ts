@@ -0,0 +1,30 @@
+/** What the portfolio allocation is broken down by */
+export type AllocationGrouping = 'holding' | 'sector' | 'type' | 'currency';
+
+/** One group of holdings in an allocation breakdown */
+export interface AllocationSlice {
+  /** Stable ID of the group within its grouping */
+  key: string;
+  label: string;
+  /** Market value of the group in the base currency */
+  value: number;
+  /** Share of the portfolio's equity as a decimal */
+  weight: number;
+  /** Holdings in the group */
+  symbols: string[];
+}
+
+/** A holding whose share of the portfolio is over the concentration threshold */
+export interface ConcentrationWarning {
+  symbol: string;
+  weight: number;
+}
+
+/** The portfolio's equity broken down into slices, largest first */
+export interface Allocation {
+  grouping: AllocationGrouping;
+  slices: AllocationSlice[];
+  /** Equity the weights are measured against, in the base currency */
+  total: number;
+  warnings: ConcentrationWarning[];
+}
@@ -0,0 +1,27 @@
+/**
+ * Kinds of corporate action. Splits cover reverse splits too, with a ratio
+ * below one.
+ */
+export type CorporateActionType = 'dividend' | 'split' | 'symbol_change' | 'delisting';
+
+/**
+ * An event announced by a company that changes its shareholders' holdings
+ * or cash. Only the fields for its type are set.
+ */
+export interface CorporateAction {
+  id: string;
+  type: CorporateActionType;
+  symbol: string;
+  /** ISO timestamp the action takes effect; shares held before it are affected */
+  effectiveDate: string;
+  /** Cash per share paid as a dividend, or paid out on delisting (0 if nothing) */
+  amountPerShare?: number;
+  /** ISO 4217 code of the cash per share; defaults to the stock's currency */
+  currency?: string;
+  /** New shares per old share: 3 for a 3-for-1 split, 0.1 for a 1-for-10 reverse split */
+  ratio?: number;
+  /** Symbol the stock trades under after a symbol change */
+  newSymbol?: string;
+  /** Short description shown to the user */
+  description: string;
+}
@@ -0,0 +1,39 @@
+import { OrderSide } from './portfolio.interface';
+
+/**
+ * Brokerage and currency conversion charges applied to every trade.
+ */
+export interface FeeSchedule {
+  /** Fixed brokerage per trade in dollars */
+  flatFee: number;
+  /** Brokerage as a share of the trade value (as decimal, e.g., 0.001 for 0.1%) */
+  percentageFee: number;
+  /** Lowest brokerage charged on a trade in dollars */
+  minimumFee: number;
+  /** Currency conversion charge as a share of the trade value (as decimal) */
+  fxFeePercent: number;
+}
+
+/**
+ * Pre-trade breakdown of what an order is expected to cost or return.
+ * Amounts are in the base currency; the price is in the stock's currency.
+ */
+export interface OrderEstimate {
+  side: OrderSide;
+  /** Base currency the amounts are in */
+  currency: string;
+  /** Estimated number of shares traded */
+  shares: number;
+  /** Estimated price per share */
+  price: number;
+  /** Value of the shares before fees */
+  grossAmount: number;
+  /** Brokerage charged under the fee schedule */
+  brokerage: number;
+  /** Currency conversion cost; zero when the stock trades in the base currency */
+  fxCost: number;
+  /** Brokerage plus currency conversion cost */
+  totalFees: number;
+  /** Cash debited for a buy, or credited for a sell, after fees */
+  netAmount: number;
+}
@@ -0,0 +1,42 @@
+/** Values read from each row of a broker statement */
+export type ImportField = 'symbol' | 'quantity' | 'cost' | 'date' | 'currency';
+
+/** Header of the column each field is read from; currency may be left unmapped */
+export type ColumnMapping = Record<ImportField, string | null>;
+
+/** Whether dates like 03/04/2024 are day first or month first */
+export type ImportDateOrder = 'dmy' | 'mdy';
+
+/** How one broker lays out the holdings in its CSV statements */
+export interface ImportPreset {
+  id: string;
+  label: string;
+  columns: ColumnMapping;
+  /** Whether the cost column is the total paid rather than the cost per share */
+  costIsTotal: boolean;
+  dateOrder: ImportDateOrder;
+}
+
+/** One row of a statement, as it would be imported */
+export interface ImportRow {
+  /** Ledger entry ID for the row; the same row always gets the same ID, so it's never imported twice */
+  id: string;
+  /** Row number in the file, counting the header as row 1 */
+  row: number;
+  symbol: string;
+  quantity: number;
+  costPerShare: number;
+  /** ISO timestamp the shares were acquired */
+  acquiredAt: string;
+  currency: string;
+  /** Problems that stop the row being imported; empty if it's valid */
+  errors: string[];
+}
+
+/** A statement checked against a preset, before anything is imported */
+export interface ImportPreview {
+  headers: string[];
+  /** Fields the mapping needs that aren't columns in the file */
+  missingFields: ImportField[];
+  rows: ImportRow[];
+}
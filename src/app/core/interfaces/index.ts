@@ -1,2 +1,15 @@
 export * from './stock.interface';
 export * from './portfolio.interface';
+export * from './order.interface';
+export * from './fee.interface';
+export * from './ledger.interface';
+export * from './corporate-action.interface';
+export * from './tax-report.interface';
+export * from './holdings-import.interface';
+export * from './recurring.interface';
+export * from './market.interface';
+export * from './market-data.interface';
+export * from './quote.interface';
+export * from './performance.interface';
+export * from './allocation.interface';
+export * from './search.interface';
@@ -0,0 +1,102 @@
+/**
+ * Kinds of ledger entry. Transfers move shares in or out of the account
+ * without trading, e.g. from another broker. Splits, symbol changes and
+ * delistings are corporate actions applied to the shares held.
+ */
+export type LedgerEntryType =
+  | 'buy'
+  | 'sell'
+  | 'fee'
+  | 'dividend'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'split'
+  | 'symbol_change'
+  | 'delisting';
+
+/**
+ * How the cost of shares sold is worked out: oldest lots first, or the
+ * average cost of every share held.
+ */
+export type CostBasisMethod = 'fifo' | 'average';
+
+/**
+ * One transaction in the append-only ledger that holdings are rebuilt from.
+ * Prices and amounts are in the entry's currency, the stock's own.
+ */
+export interface LedgerEntry {
+  id: string;
+  type: LedgerEntryType;
+  symbol: string;
+  /** ISO timestamp of the transaction */
+  timestamp: string;
+  /** Shares bought, sold, transferred or delisted; 0 for fees and dividends */
+  quantity: number;
+  /**
+   * Price per share; for transfers in, the cost per share carried over, and
+   * for delistings, the cash paid out per share
+   */
+  price: number;
+  /** Cash amount of a fee or dividend; 0 for trades and transfers */
+  amount: number;
+  /** ISO 4217 code of the prices and amounts */
+  currency: string;
+  /** Trade entry a fee was charged on; its cost counts towards that trade */
+  relatedEntryId?: string;
+  /** New shares per old share, for splits */
+  ratio?: number;
+  /** Symbol the position moves to, for symbol changes */
+  newSymbol?: string;
+  /** Short description shown to the user */
+  description: string;
+}
+
+/** Shares acquired together, still held */
+export interface TaxLot {
+  symbol: string;
+  /** Ledger entry that acquired the shares */
+  entryId: string;
+  /** ISO timestamp the shares were acquired */
+  acquiredAt: string;
+  quantity: number;
+  /** Cost per share including fees */
+  costPerShare: number;
+}
+
+/** Shares from one lot sold or delisted by one entry */
+export interface LotDisposal {
+  symbol: string;
+  /** Sell or delisting entry that disposed of the shares */
+  entryId: string;
+  acquiredAt: string;
+  disposedAt: string;
+  quantity: number;
+  /** Cost of the shares including buy fees */
+  costBasis: number;
+  /** Sale value before fees */
+  proceeds: number;
+  /** Sell fees charged on these shares */
+  fees: number;
+  /** Proceeds less cost basis and fees */
+  gainLoss: number;
+}
+
+/** Everything the ledger says about one symbol, in the stock's currency */
+export interface Position {
+  symbol: string;
+  currency: string;
+  /** Shares held */
+  quantity: number;
+  /** Total cost of the shares held, including buy fees */
+  costBasis: number;
+  /** Lots making up the shares held, oldest first */
+  lots: TaxLot[];
+  /** Every sale of shares, oldest first */
+  disposals: LotDisposal[];
+  /** Sum of the gains and losses on every disposal */
+  realizedGainLoss: number;
+  /** Dividends received */
+  dividends: number;
+  /** Every fee charged, on trades or otherwise */
+  fees: number;
+}
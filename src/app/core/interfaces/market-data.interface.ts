@@ -0,0 +1,62 @@
+import { Observable } from 'rxjs';
+import { CorporateAction } from './corporate-action.interface';
+import { Fundamentals, Stock } from './stock.interface';
+
+/** Which market data implementation the app is built against */
+export type MarketDataSource = 'mock' | 'http';
+
+export type HistoryRange = '1D' | '1W' | '1M' | '3M' | '1Y' | 'ALL';
+
+/**
+ * Ranked market movers lists: biggest rises and falls by day change percent,
+ * highest volume, and trending (big moves on heavy volume).
+ */
+export type MarketMoversCategory = 'gainers' | 'losers' | 'active' | 'trending';
+
+/** One OHLC bar of price history */
+export interface PriceBar {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Exchange rates as units of each currency per one unit of the base
+ * currency, e.g. { base: 'USD', rates: { AUD: 1.52 } }.
+ */
+export interface FxRates {
+  base: string;
+  rates: Record<string, number>;
+  /** When the rates were published */
+  asOf: string;
+}
+
+/** A cached market data response and when it was fetched */
+export interface MarketDataCacheEntry<T = unknown> {
+  value: T;
+  /** Epoch milliseconds of the fetch */
+  fetchedAt: number;
+}
+
+/**
+ * Source of quotes, search results, trending lists, price history and
+ * corporate actions.
+ * Pages and services depend on this rather than on a concrete backend.
+ */
+export interface MarketDataProvider {
+  getQuote(symbol: string): Observable<Stock>;
+  getQuotes(symbols: string[]): Observable<Stock[]>;
+  /** Candidate matches for a query; SearchService ranks them and drops non-matches */
+  search(query: string): Observable<Stock[]>;
+  getTrending(): Observable<Stock[]>;
+  /** Every stock in the category, best ranked first */
+  getMovers(category: MarketMoversCategory): Observable<Stock[]>;
+  getHistory(symbol: string, range: HistoryRange): Observable<PriceBar[]>;
+  getFundamentals(symbol: string): Observable<Fundamentals>;
+  getFxRates(): Observable<FxRates>;
+  /** Dividends, splits, symbol changes and delistings announced for the symbols */
+  getCorporateActions(symbols: string[]): Observable<CorporateAction[]>;
+}
@@ -0,0 +1,30 @@
+export type MarketSession = 'pre_market' | 'regular' | 'after_hours' | 'closed';
+
+/**
+ * Trading hours of an exchange. Times are wall-clock "HH:mm" in the
+ * exchange's own time zone.
+ */
+export interface ExchangeCalendar {
+  code: string;
+  name: string;
+  timeZone: string;
+  /** Start of pre-market trading, if the exchange has one */
+  preMarketOpen?: string;
+  regularOpen: string;
+  regularClose: string;
+  /** End of after-hours trading, if the exchange has one */
+  afterHoursClose?: string;
+  /** Full-day closures as "yyyy-mm-dd" in the exchange's time zone */
+  holidays: string[];
+}
+
+export interface MarketStatus {
+  exchange: string;
+  session: MarketSession;
+  isOpen: boolean;
+  /** Next start of the regular session; absent while it is open */
+  nextOpen?: string;
+  /** End of the current regular session; absent while it is closed */
+  nextClose?: string;
+  message: string;
+}
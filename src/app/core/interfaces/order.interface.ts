@@ -0,0 +1,80 @@
+import { OrderRequest } from './portfolio.interface';
+import { Stock } from './stock.interface';
+
+/**
+ * An unfilled limit or stop order waiting in the pending-order book.
+ */
+export interface PendingOrder {
+  /** Unique identifier of the order */
+  id: string;
+
+  /** Snapshot of the stock when the order was placed */
+  stock: Stock;
+
+  /** The order as submitted from the order modal */
+  request: OrderRequest;
+
+  /** ISO timestamp of when the order was placed */
+  createdAt: string;
+
+  /** Whether the stop price of a stop_limit order has been reached */
+  stopTriggered: boolean;
+}
+
+/**
+ * Lifecycle states of an order:
+ * created → submitted → partially_filled → filled / rejected / cancelled
+ */
+export type OrderStatus =
+  | 'created'
+  | 'submitted'
+  | 'partially_filled'
+  | 'filled'
+  | 'rejected'
+  | 'cancelled';
+
+/**
+ * A single move between lifecycle states.
+ */
+export interface OrderTransition {
+  /** State the order moved into */
+  status: OrderStatus;
+
+  /** ISO timestamp of the move */
+  timestamp: string;
+
+  /** Human readable explanation of why the order moved */
+  reason: string;
+}
+
+/**
+ * An order and everything that happened to it since it was created.
+ */
+export interface Order {
+  /** Unique identifier of the order */
+  id: string;
+
+  /** Snapshot of the stock when the order was created */
+  stock: Stock;
+
+  /** The order as submitted from the order modal */
+  request: OrderRequest;
+
+  /** Current lifecycle state */
+  status: OrderStatus;
+
+  /** Shares filled so far */
+  filledQuantity: number;
+
+  /** Volume-weighted price of the shares filled so far */
+  averageFillPrice: number;
+
+  /** Every state change, oldest first */
+  transitions: OrderTransition[];
+
+  /** ISO timestamp of when the order was created */
+  createdAt: string;
+
+  /** ISO timestamp of the latest state change */
+  updatedAt: string;
+}
@@ -0,0 +1,40 @@
+import { HistoryRange } from './market-data.interface';
+
+/** Periods the portfolio value chart can show; snapshots are daily, so there is no 1D */
+export type PerformancePeriod = Exclude<HistoryRange, '1D'>;
+
+/**
+ * Value of the portfolio at the end of one day.
+ */
+export interface PortfolioSnapshot {
+  /** Local calendar day as "yyyy-mm-dd" */
+  date: string;
+  /** Holdings plus cash, in the portfolio's base currency */
+  value: number;
+  /** Market value of the shares held at the day's closing prices */
+  holdingsValue: number;
+  /** Cash balance at the end of the day */
+  cash: number;
+  /**
+   * Deposits minus withdrawals made during the day, plus the value of shares
+   * transferred in less those transferred out
+   */
+  netDeposits: number;
+}
+
+/**
+ * Daily snapshots for a period and the return earned over it.
+ */
+export interface PerformanceHistory {
+  period: PerformancePeriod;
+  /** One snapshot per day, oldest first */
+  snapshots: PortfolioSnapshot[];
+  /** Change in value over the period, including deposits and withdrawals */
+  valueChange: number;
+  /**
+   * Time-weighted return over the period as a decimal (0.05 for 5%). Each
+   * day's return is measured net of that day's deposits, withdrawals and
+   * share transfers.
+   */
+  timeWeightedReturn: number;
+}
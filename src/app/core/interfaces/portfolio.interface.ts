@@ -1,27 +1,135 @@
 import { StockHolding } from './stock.interface';
 
+/**
+ * The user's account. Totals and cash are in the base currency; holdings
+ * keep their own currency alongside a converted value.
+ */
 export interface Portfolio {
+  /** ISO 4217 code of the currency totals and cash are kept in */
+  baseCurrency: string;
   /** Total market value of all stock holdings in the portfolio */
   totalEquity: number;
-  /** Absolute change in portfolio value for the current day in dollars */
+  /** Change in the value of the holdings since the previous close */
   dayChange: number;
   /** Percentage change in portfolio value for the current day (as decimal, e.g., 0.05 for 5%) */
   dayChangePercent: number;
+  /** Market value of the holdings minus what they cost */
+  unrealizedGainLoss: number;
+  /** Unrealized gain or loss as a decimal of the cost of the holdings */
+  unrealizedGainLossPercent: number;
+  /** Gain or loss locked in by sell orders, net of fees, worked out from the ledger */
+  realizedGainLoss: number;
   /** List of individual stock holdings in the portfolio */
   holdings: StockHolding[];
+  /** Uninvested cash and the movements that produced it */
+  cash: CashLedger;
+}
+
+/** The portfolio totals worked out by the P&L engine */
+export type PortfolioPnl = Pick<
+  Portfolio,
+  | 'totalEquity'
+  | 'dayChange'
+  | 'dayChangePercent'
+  | 'unrealizedGainLoss'
+  | 'unrealizedGainLossPercent'
+  | 'realizedGainLoss'
+>;
+
+/** Kinds of cash movement recorded in the cash ledger */
+export type CashMovementType = 'deposit' | 'withdrawal' | 'buy' | 'sell' | 'fee' | 'dividend';
+
+/**
+ * A single credit or debit of cash.
+ */
+export interface CashMovement {
+  /** Kind of movement */
+  type: CashMovementType;
+  /** Signed amount in dollars; credits are positive, debits negative */
+  amount: number;
+  /** ISO timestamp of the movement */
+  timestamp: string;
+  /** ISO timestamp at which the cash counts as settled */
+  settlesAt: string;
+  /** Whether the movement has been added to settled cash */
+  settled: boolean;
+  /** Short description shown to the user */
+  description: string;
 }
 
+/**
+ * Cash reserved for a pending buy order until it fills or is cancelled.
+ */
+export interface CashHold {
+  /** Order the cash is held for */
+  orderId: string;
+  /** Amount held in dollars */
+  amount: number;
+}
+
+/**
+ * Cash balances of the portfolio. Buying power is the available cash minus
+ * the cash held for pending orders.
+ */
+export interface CashLedger {
+  /** Cash that can be spent, including sale proceeds that haven't settled yet */
+  availableCash: number;
+  /** Part of the available cash that has settled */
+  settledCash: number;
+  /** Cash reserved for pending buy orders */
+  heldCash: number;
+  /** Individual reservations making up the held cash */
+  holds: CashHold[];
+  /** Every cash movement, newest first */
+  movements: CashMovement[];
+}
+
+/** Direction of a trade */
+export type OrderSide = 'buy' | 'sell';
+
+/**
+ * How an order is priced:
+ * - market: fills immediately at the current price
+ * - limit: fills at the limit price or better
+ * - stop: becomes a market order once the stop price is reached
+ * - stop_limit: becomes a limit order once the stop price is reached
+ */
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit';
+
+/** Which order field the user types into: a dollar amount or a share quantity */
+export type OrderInputMode = 'amount' | 'shares';
+
+/** How long an unfilled order stays working: the trading day, or good-till-cancelled */
+export type TimeInForce = 'day' | 'gtc';
+
 /**
  * Represents an order request from the order modal.
- * Currently only used for buy orders in the mock implementation.
  */
 export interface OrderRequest {
+  /**
+   * Idempotency key generated by the client before submitting. Resubmitting
+   * the same ID returns the original order instead of trading again.
+   */
+  clientOrderId: string;
+
   /** Stock symbol to trade */
   symbol: string;
 
+  /** Whether the order buys or sells the stock */
+  side: OrderSide;
+
   /** Quantity of shares to trade */
   quantity: number;
 
-  /** Price per share for the order (currently always uses market price) */
-  price?: number;
+  /** Pricing behaviour of the order */
+  type: OrderType;
+
+  /** Worst acceptable price per share (limit and stop_limit orders) */
+  limitPrice?: number;
+
+  /** Price per share that triggers the order (stop and stop_limit orders) */
+  stopPrice?: number;
+
+  /** Expiry policy for orders that don't fill immediately */
+  timeInForce: TimeInForce;
 }
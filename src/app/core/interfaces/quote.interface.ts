@@ -0,0 +1,30 @@
+import { Stock } from './stock.interface';
+
+/** Anything that carries at least a symbol and a price for it */
+export type QuoteUpdate = Pick<Stock, 'symbol' | 'price'> & Partial<Stock>;
+
+/** Latest known price of a symbol, as held in the quote store */
+export interface Quote {
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  /** When the price was quoted by the feed or provider */
+  quotedAt: string;
+  /** True once the quote is older than the staleness window, or came from an offline cache */
+  isStale: boolean;
+}
+
+/** Price update pushed by the streaming feed */
+export interface QuoteTick {
+  type: 'tick';
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  timestamp: string;
+}
+
+export type QuoteStreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
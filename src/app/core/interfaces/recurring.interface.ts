@@ -0,0 +1,72 @@
+import { Stock } from './stock.interface';
+
+/** How often a recurring investment plan runs */
+export type RecurringFrequency = 'daily' | 'weekly' | 'fortnightly' | 'monthly';
+
+/** Whether a plan is running, paused by the user, or past its end date */
+export type RecurringPlanStatus = 'active' | 'paused' | 'completed';
+
+/**
+ * A dollar-cost averaging plan that buys a fixed dollar amount of a stock on
+ * a schedule.
+ */
+export interface RecurringPlan {
+  /** Unique identifier of the plan */
+  id: string;
+
+  /** Stock the plan invests in */
+  stock: Stock;
+
+  /** Dollar amount invested on each run */
+  amount: number;
+
+  /** How often the plan runs */
+  frequency: RecurringFrequency;
+
+  /** ISO date of the first run */
+  startDate: string;
+
+  /** ISO date after which the plan stops running */
+  endDate?: string;
+
+  /** Current status of the plan */
+  status: RecurringPlanStatus;
+
+  /** ISO timestamp of the next scheduled run */
+  nextRunAt: string;
+
+  /** ISO timestamp of when the plan was created */
+  createdAt: string;
+}
+
+/** Outcome of a single plan run */
+export type RecurringRunStatus = 'filled' | 'queued' | 'failed' | 'skipped';
+
+/**
+ * Log entry for one scheduled run of a plan.
+ */
+export interface RecurringRun {
+  /** Plan the run belongs to */
+  planId: string;
+
+  /** Stock symbol that was bought */
+  symbol: string;
+
+  /** ISO timestamp the run was scheduled for */
+  scheduledFor: string;
+
+  /** ISO timestamp the run was processed */
+  processedAt: string;
+
+  /** Dollar amount of the run */
+  amount: number;
+
+  /** Outcome of the run */
+  status: RecurringRunStatus;
+
+  /** Order placed for the run, if any */
+  orderId?: string;
+
+  /** Explanation of the outcome */
+  message: string;
+}
@@ -0,0 +1,38 @@
+import { InstrumentType, Stock } from './stock.interface';
+
+/**
+ * How a search result matched the query, best first: the whole ticker, the
+ * start of the ticker, the start of the name (or a word in it), or a fuzzy
+ * match allowing gaps and typos.
+ */
+export type SearchMatchKind = 'exact' | 'symbol_prefix' | 'name_prefix' | 'fuzzy';
+
+/** A run of text that either matched the query or didn't, for highlighting */
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+export interface SearchResult {
+  stock: Stock;
+  kind: SearchMatchKind;
+  /** Orders results within a match kind; higher is better */
+  score: number;
+  symbolSegments: HighlightSegment[];
+  nameSegments: HighlightSegment[];
+}
+
+/** Results of one instrument type, in rank order */
+export interface SearchResultGroup {
+  type: InstrumentType;
+  label: string;
+  results: SearchResult[];
+}
+
+export interface SearchResponse {
+  /** The trimmed query the results are for */
+  query: string;
+  groups: SearchResultGroup[];
+  /** Every result in display order, group by group, for keyboard navigation */
+  results: SearchResult[];
+}
@@ -1,18 +1,75 @@
+/** Kind of listed instrument */
+export type InstrumentType = 'stock' | 'etf';
+
 export interface Stock {
   symbol: string;
   companyName: string;
+  /** Kind of instrument; a stock when absent */
+  type?: InstrumentType;
   price: number;
   change: number;
   changePercent: number;
   volume: number;
   logo?: string;
+  /** Listing exchange code, used to look up trading hours */
+  exchange?: string;
+  /** ISO 4217 code of the currency the stock trades in; USD when absent */
+  currency?: string;
+  /** Decimal places allowed in a share quantity (0 for whole shares only) */
+  fractionalPrecision?: number;
+  /** Smallest number of shares accepted in a single order */
+  minOrderQuantity?: number;
+  /** When the price was last quoted */
+  quotedAt?: string;
+  /** True when the price has not been refreshed within the staleness window */
+  isStale?: boolean;
+  /** Company profile and valuation figures, loaded separately from the quote */
+  fundamentals?: Fundamentals;
+}
+
+/**
+ * Company fundamentals. Fields the data source doesn't have are left out.
+ */
+export interface Fundamentals {
+  symbol: string;
+  /** Market capitalisation in dollars */
+  marketCap?: number;
+  /** Price to trailing twelve-month earnings */
+  peRatio?: number;
+  /** Trailing twelve-month earnings per share in dollars */
+  eps?: number;
+  /** Annual dividend as a decimal of the price (0.02 for 2%) */
+  dividendYield?: number;
+  fiftyTwoWeekHigh?: number;
+  fiftyTwoWeekLow?: number;
+  sector?: string;
+  industry?: string;
+  /** Listing exchange code */
+  exchange?: string;
+  description?: string;
 }
 
+/**
+ * Shares held in one stock. Prices and values are in the stock's own
+ * currency unless named as converted; percents are decimals (0.05 for 5%).
+ */
 export interface StockHolding {
   stock: Stock;
   quantity: number;
   averagePrice: number;
+  /** What the shares held cost, including buy fees */
+  costBasis: number;
   totalValue: number;
+  /** Rate converting the stock's currency into the portfolio's base currency */
+  fxRate: number;
+  /** Market value converted to the portfolio's base currency */
+  convertedValue: number;
+  /** Unrealized gain or loss: market value minus cost basis */
   gainLoss: number;
   gainLossPercent: number;
+  /** Change in market value since the previous close */
+  dayChange: number;
+  dayChangePercent: number;
+  /** Gain or loss locked in by sales of this stock, net of fees */
+  realizedGainLoss: number;
 }
@@ -0,0 +1,44 @@
+import { LotDisposal } from './ledger.interface';
+
+/** First day of the user's financial year; { month: 7, day: 1 } for 1 July to 30 June */
+export interface FinancialYearStart {
+  /** 1 for January to 12 for December */
+  month: number;
+  day: number;
+}
+
+/** One financial year as the dates it covers */
+export interface FinancialYear {
+  /** e.g. "FY2025–26", or "2025" when the year starts on 1 January */
+  label: string;
+  /** ISO timestamp of the first moment of the year */
+  start: string;
+  /** ISO timestamp of the first moment of the next year */
+  end: string;
+}
+
+/** Short-term holdings were held for 12 months or less before being sold */
+export type HoldingTerm = 'short' | 'long';
+
+/** A disposal of shares with the currency and holding period it's reported under */
+export interface RealizedGain extends LotDisposal {
+  currency: string;
+  term: HoldingTerm;
+}
+
+/** Sums of the realized gains in one currency and holding period */
+export interface RealizedGainsTotal {
+  currency: string;
+  term: HoldingTerm;
+  proceeds: number;
+  costBasis: number;
+  fees: number;
+  gainLoss: number;
+}
+
+/** Every disposal in a financial year, oldest first, with totals */
+export interface RealizedGainsReport {
+  financialYear: FinancialYear;
+  gains: RealizedGain[];
+  totals: RealizedGainsTotal[];
+}
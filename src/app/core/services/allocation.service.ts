@@ -0,0 +1,129 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, catchError, forkJoin, map, of } from 'rxjs';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import {
+  Allocation,
+  AllocationGrouping,
+  AllocationSlice,
+  ConcentrationWarning,
+  InstrumentType,
+  StockHolding,
+} from '../interfaces';
+import { MARKET_DATA_PROVIDER } from './market-data.token';
+
+const TYPE_LABELS: Record<InstrumentType, string> = {
+  stock: 'Stocks',
+  etf: 'ETFs',
+};
+
+const UNCLASSIFIED = 'Unclassified';
+
+/**
+ * Breaks the portfolio's equity down by holding, sector, instrument type or
+ * currency, and flags holdings that make up too much of it.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AllocationService {
+  private marketData = inject(MARKET_DATA_PROVIDER);
+
+  /** Sector of each symbol from its fundamentals; symbols without one are left out */
+  getSectors(symbols: string[]): Observable<Record<string, string>> {
+    if (symbols.length === 0) {
+      return of({});
+    }
+    return forkJoin(
+      symbols.map(symbol =>
+        this.marketData.getFundamentals(symbol).pipe(
+          map(fundamentals => [symbol, fundamentals.sector] as const),
+          // A stock without fundamentals is shown as unclassified rather than failing the lot
+          catchError(() => of([symbol, undefined] as const))
+        )
+      )
+    ).pipe(
+      map(entries =>
+        Object.fromEntries(
+          entries.filter((entry): entry is readonly [string, string] => !!entry[1])
+        )
+      )
+    );
+  }
+
+  /**
+   * Groups holdings by converted market value, largest first. Beyond
+   * MAX_ALLOCATION_SLICES the smallest groups are combined into "Other".
+   */
+  getAllocation(
+    holdings: StockHolding[],
+    grouping: AllocationGrouping,
+    sectors: Record<string, string> = {}
+  ): Allocation {
+    const total = holdings.reduce((sum, holding) => sum + holding.convertedValue, 0);
+
+    const groups = new Map<string, AllocationSlice>();
+    holdings.forEach(holding => {
+      const { key, label } = this.groupOf(holding, grouping, sectors);
+      const group = groups.get(key) ?? { key, label, value: 0, weight: 0, symbols: [] };
+      group.value += holding.convertedValue;
+      group.symbols.push(holding.stock.symbol);
+      groups.set(key, group);
+    });
+
+    let slices = [...groups.values()].sort((a, b) => b.value - a.value);
+    if (slices.length > APP_CONSTANTS.MAX_ALLOCATION_SLICES) {
+      const rest = slices.slice(APP_CONSTANTS.MAX_ALLOCATION_SLICES - 1);
+      slices = [
+        ...slices.slice(0, APP_CONSTANTS.MAX_ALLOCATION_SLICES - 1),
+        {
+          key: 'other',
+          label: 'Other',
+          value: rest.reduce((sum, slice) => sum + slice.value, 0),
+          weight: 0,
+          symbols: rest.flatMap(slice => slice.symbols),
+        },
+      ];
+    }
+    slices.forEach(slice => (slice.weight = total > 0 ? slice.value / total : 0));
+
+    return { grouping, slices, total, warnings: this.getConcentrationWarnings(holdings, total) };
+  }
+
+  /** Holdings over the concentration threshold, largest first */
+  private getConcentrationWarnings(
+    holdings: StockHolding[],
+    total: number
+  ): ConcentrationWarning[] {
+    if (total <= 0) {
+      return [];
+    }
+    return holdings
+      .map(holding => ({ symbol: holding.stock.symbol, weight: holding.convertedValue / total }))
+      .filter(warning => warning.weight > APP_CONSTANTS.CONCENTRATION_WARNING_THRESHOLD)
+      .sort((a, b) => b.weight - a.weight);
+  }
+
+  private groupOf(
+    holding: StockHolding,
+    grouping: AllocationGrouping,
+    sectors: Record<string, string>
+  ): { key: string; label: string } {
+    const { stock } = holding;
+    switch (grouping) {
+      case 'holding':
+        return { key: stock.symbol, label: stock.symbol };
+      case 'sector': {
+        const sector = sectors[stock.symbol] ?? UNCLASSIFIED;
+        return { key: sector, label: sector };
+      }
+      case 'type': {
+        const type = stock.type ?? 'stock';
+        return { key: type, label: TYPE_LABELS[type] };
+      }
+      case 'currency': {
+        const currency = stock.currency ?? APP_CONSTANTS.DEFAULT_CURRENCY;
+        return { key: currency, label: currency };
+      }
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { Injectable, inject } from '@angular/core';
+import { EMPTY, Observable, ReplaySubject, catchError, concat, map, of, throwError } from 'rxjs';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import {
+  CorporateAction,
+  Fundamentals,
+  FxRates,
+  HistoryRange,
+  MarketDataCacheEntry,
+  MarketDataProvider,
+  MarketMoversCategory,
+  PriceBar,
+  Stock,
+} from '../interfaces';
+import { LocalStorageService } from './local-storage.service';
+import { MARKET_DATA_SOURCE } from './market-data.token';
+
+type CacheKind = keyof typeof APP_CONSTANTS.MARKET_DATA_CACHE_TTL_MS;
+
+// Kinds kept in local storage so the app can open offline
+const PERSISTED_KINDS: CacheKind[] = ['quote', 'trending', 'fx'];
+
+/**
+ * Cache in front of the configured market data source.
+ *
+ * - Fresh entries are served without a request; each kind has its own TTL.
+ * - Concurrent requests for the same data share one in-flight request.
+ * - Expired entries are served straight away, flagged stale, and followed by
+ *   the refreshed value once it arrives.
+ * - If a refresh fails, the last known value is served instead of the error.
+ *
+ * Quotes, trending lists and FX rates are persisted, so they survive a restart.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CachedMarketDataProvider implements MarketDataProvider {
+  private source = inject(MARKET_DATA_SOURCE);
+  private localStorageService = inject(LocalStorageService);
+
+  private entries = new Map<string, MarketDataCacheEntry>(
+    Object.entries(this.localStorageService.getMarketDataCache())
+  );
+  private inFlight = new Map<string, Observable<unknown>>();
+
+  getQuote(symbol: string): Observable<Stock> {
+    return this.cached('quote', symbol, () =>
+      this.source.getQuote(symbol).pipe(map(stock => this.stamp(stock)))
+    );
+  }
+
+  /**
+   * Quotes are cached per symbol, so only the symbols without a fresh quote
+   * are requested.
+   */
+  getQuotes(symbols: string[]): Observable<Stock[]> {
+    const entries = symbols.map(symbol => this.getEntry<Stock>('quote', symbol));
+    const missing = symbols.filter((_, i) => !entries[i] || this.isExpired('quote', entries[i]!));
+    if (missing.length === 0) {
+      return of(entries.map(entry => entry!.value));
+    }
+
+    const refresh$ = this.request(`quotes:${[...missing].sort().join(',')}`, () =>
+      this.source.getQuotes(missing).pipe(
+        map(stocks => {
+          const fetchedAt = Date.now();
+          stocks.forEach(stock =>
+            this.setEntry('quote', stock.symbol, this.stamp(stock), fetchedAt)
+          );
+          return stocks;
+        })
+      )
+    ).pipe(map(() => this.collectQuotes(symbols)));
+
+    // Without a quote for every symbol there is nothing useful to show before the refresh
+    if (entries.some(entry => !entry)) {
+      return refresh$.pipe(
+        catchError(error =>
+          entries.some(entry => !!entry) ? of(this.collectQuotes(symbols)) : throwError(() => error)
+        )
+      );
+    }
+    return concat(of(this.collectQuotes(symbols)), refresh$.pipe(catchError(() => EMPTY)));
+  }
+
+  search(query: string): Observable<Stock[]> {
+    return this.cached('search', query.trim().toLowerCase(), () => this.source.search(query));
+  }
+
+  getTrending(): Observable<Stock[]> {
+    return this.cached('trending', 'all', () =>
+      this.source.getTrending().pipe(map(stocks => stocks.map(stock => this.stamp(stock))))
+    );
+  }
+
+  getMovers(category: MarketMoversCategory): Observable<Stock[]> {
+    return this.cached('movers', category, () =>
+      this.source.getMovers(category).pipe(map(stocks => stocks.map(stock => this.stamp(stock))))
+    );
+  }
+
+  getHistory(symbol: string, range: HistoryRange): Observable<PriceBar[]> {
+    return this.cached('history', `${symbol}:${range}`, () =>
+      this.source.getHistory(symbol, range)
+    );
+  }
+
+  getFundamentals(symbol: string): Observable<Fundamentals> {
+    return this.cached('fundamentals', symbol, () => this.source.getFundamentals(symbol));
+  }
+
+  getFxRates(): Observable<FxRates> {
+    return this.cached('fx', 'latest', () => this.source.getFxRates());
+  }
+
+  getCorporateActions(symbols: string[]): Observable<CorporateAction[]> {
+    const key = [...symbols].sort().join(',');
+    return this.cached('corporateActions', key, () => this.source.getCorporateActions(symbols));
+  }
+
+  /** Every persisted quote, flagged stale, for showing prices before the first fetch */
+  getLastKnownQuotes(): Stock[] {
+    return [...this.entries.entries()]
+      .filter(([key]) => key.startsWith('quote:'))
+      .map(([, entry]) => this.markStale(entry.value as Stock));
+  }
+
+  private cached<T>(kind: CacheKind, key: string, fetch: () => Observable<T>): Observable<T> {
+    const entry = this.getEntry<T>(kind, key);
+    if (entry && !this.isExpired(kind, entry)) {
+      return of(entry.value);
+    }
+
+    const refresh$ = this.request(`${kind}:${key}`, () =>
+      fetch().pipe(
+        map(value => {
+          this.setEntry(kind, key, value);
+          return value;
+        })
+      )
+    );
+    if (!entry) {
+      return refresh$;
+    }
+
+    // Serve what we have now, then the refreshed value; if the refresh fails the stale value stands
+    return concat(of(this.markStale(entry.value)), refresh$.pipe(catchError(() => EMPTY)));
+  }
+
+  /**
+   * Starts the request straight away and shares it with every caller until it
+   * settles, so it completes even if the caller stops listening.
+   */
+  private request<T>(key: string, fetch: () => Observable<T>): Observable<T> {
+    const existing = this.inFlight.get(key) as Observable<T> | undefined;
+    if (existing) {
+      return existing;
+    }
+
+    const result = new ReplaySubject<T>(1);
+    this.inFlight.set(key, result);
+
+    fetch().subscribe({
+      next: value => result.next(value),
+      error: error => {
+        this.inFlight.delete(key);
+        result.error(error);
+      },
+      complete: () => {
+        this.inFlight.delete(key);
+        result.complete();
+      },
+    });
+    return result.asObservable();
+  }
+
+  private collectQuotes(symbols: string[]): Stock[] {
+    return symbols
+      .map(symbol => this.getEntry<Stock>('quote', symbol))
+      .filter((entry): entry is MarketDataCacheEntry<Stock> => !!entry)
+      .map(entry => (this.isExpired('quote', entry) ? this.markStale(entry.value) : entry.value));
+  }
+
+  private getEntry<T>(kind: CacheKind, key: string): MarketDataCacheEntry<T> | undefined {
+    return this.entries.get(`${kind}:${key}`) as MarketDataCacheEntry<T> | undefined;
+  }
+
+  private setEntry(kind: CacheKind, key: string, value: unknown, fetchedAt = Date.now()): void {
+    this.entries.set(`${kind}:${key}`, { value, fetchedAt });
+    if (PERSISTED_KINDS.includes(kind)) {
+      this.persist();
+    }
+  }
+
+  private isExpired(kind: CacheKind, entry: MarketDataCacheEntry): boolean {
+    return Date.now() - entry.fetchedAt > APP_CONSTANTS.MARKET_DATA_CACHE_TTL_MS[kind];
+  }
+
+  private persist(): void {
+    const persisted: Record<string, MarketDataCacheEntry> = {};
+    this.entries.forEach((entry, key) => {
+      if (PERSISTED_KINDS.some(kind => key.startsWith(`${kind}:`))) {
+        persisted[key] = entry;
+      }
+    });
+    this.localStorageService.saveMarketDataCache(persisted);
+  }
+
+  /** Records when a quote was taken, so a cached copy can say how old it is */
+  private stamp(stock: Stock): Stock {
+    return stock.quotedAt ? stock : { ...stock, quotedAt: new Date().toISOString() };
+  }
+
+  /** Flags cached quotes as stale; other cached values are returned unchanged */
+  private markStale<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map(item => this.markStale(item)) as T;
+    }
+    if (value && typeof value === 'object' && 'symbol' in value && 'price' in value) {
+      return { ...value, isStale: true };
+    }
+    return value;
+  }
+}
@@ -0,0 +1,118 @@
+import { Injectable, inject } from '@angular/core';
+import { CorporateAction, LedgerEntry } from '../interfaces';
+import { ErrorHandlerService } from './error-handler.service';
+import { LedgerService } from './ledger.service';
+import { MARKET_DATA_PROVIDER } from './market-data.token';
+import { PortfolioService } from './portfolio.service';
+
+/**
+ * Applies dividends, splits, symbol changes and delistings from the market
+ * data provider to the ledger, dated when they took effect.
+ *
+ * Each action is recorded under its own ID, so one is never applied twice,
+ * and only touches the shares held just before it took effect.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CorporateActionService {
+  private marketData = inject(MARKET_DATA_PROVIDER);
+  private ledgerService = inject(LedgerService);
+  private portfolioService = inject(PortfolioService);
+  private errorHandler = inject(ErrorHandlerService);
+
+  /** Fetches the actions for every symbol in the ledger and applies the ones now due */
+  refresh(): void {
+    const symbols = [...new Set(this.ledgerService.getEntries().map(entry => entry.symbol))];
+    if (symbols.length === 0) {
+      return;
+    }
+
+    this.marketData.getCorporateActions(symbols).subscribe({
+      next: actions => this.applyAll(actions),
+      error: error => this.errorHandler.handleError(error as Error, false),
+    });
+  }
+
+  /**
+   * Applies actions that have taken effect, oldest first. Ones already
+   * applied, or for a stock not held at the time, are skipped.
+   */
+  applyAll(actions: CorporateAction[], now = new Date()): void {
+    const due = actions
+      .filter(action => new Date(action.effectiveDate) <= now)
+      .filter(action => !this.ledgerService.hasEntry(action.id))
+      .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+    due.forEach(action => {
+      try {
+        this.apply(action);
+      } catch (error) {
+        this.errorHandler.handleError(error as Error, false);
+      }
+    });
+
+    // A symbol change needs a quote under the new symbol
+    if (due.some(action => action.type === 'symbol_change')) {
+      this.portfolioService.refreshQuotes();
+    }
+  }
+
+  private apply(action: CorporateAction): void {
+    const position = this.ledgerService.getPositionBefore(action.symbol, action.effectiveDate);
+    if (!position || position.quantity <= 0) {
+      return;
+    }
+
+    const currency = action.currency ?? position.currency;
+    const entry: LedgerEntry = {
+      id: action.id,
+      type: action.type,
+      symbol: action.symbol,
+      timestamp: action.effectiveDate,
+      quantity: 0,
+      price: 0,
+      amount: 0,
+      currency,
+      description: action.description,
+    };
+
+    switch (action.type) {
+      case 'dividend': {
+        const amount = (action.amountPerShare ?? 0) * position.quantity;
+        this.ledgerService.append([{ ...entry, amount }]);
+        this.portfolioService.creditCash(
+          'dividend',
+          amount,
+          currency,
+          `Dividend from ${action.symbol}`
+        );
+        break;
+      }
+      case 'split':
+        if (!action.ratio) {
+          throw new Error(`Split for ${action.symbol} has no ratio`);
+        }
+        this.ledgerService.append([{ ...entry, ratio: action.ratio }]);
+        break;
+      case 'symbol_change':
+        if (!action.newSymbol) {
+          throw new Error(`Symbol change for ${action.symbol} has no new symbol`);
+        }
+        this.ledgerService.append([{ ...entry, newSymbol: action.newSymbol }]);
+        break;
+      case 'delisting': {
+        // Any cash paid out per share realizes the gain or loss, even if it's nothing
+        const price = action.amountPerShare ?? 0;
+        this.ledgerService.append([{ ...entry, quantity: position.quantity, price }]);
+        this.portfolioService.creditCash(
+          'sell',
+          price * position.quantity,
+          currency,
+          `Delisting payout for ${action.symbol}`
+        );
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { Injectable, inject } from '@angular/core';
+import { Capacitor } from '@capacitor/core';
+import { Directory, Encoding, Filesystem } from '@capacitor/filesystem';
+import { Share } from '@capacitor/share';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import { FinancialYear } from '../interfaces';
+import { LedgerService } from './ledger.service';
+import { PortfolioService } from './portfolio.service';
+import { TaxReportService } from './tax-report.service';
+
+type CsvCell = string | number;
+
+/**
+ * Writes the ledger, current holdings and realized gains to CSV files. On a
+ * device the file goes to the native share sheet; on the web it downloads.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ExportService {
+  private ledgerService = inject(LedgerService);
+  private portfolioService = inject(PortfolioService);
+  private taxReportService = inject(TaxReportService);
+
+  /** Every ledger entry, oldest first */
+  async exportLedger(): Promise<void> {
+    const entries = [...this.ledgerService.getEntries()].sort((a, b) =>
+      a.timestamp.localeCompare(b.timestamp)
+    );
+    const rows: CsvCell[][] = [
+      ['Date', 'Type', 'Symbol', 'Quantity', 'Price', 'Amount', 'Currency', 'Description', 'ID'],
+      ...entries.map(entry => [
+        entry.timestamp,
+        entry.type,
+        entry.symbol,
+        this.toQuantity(entry.quantity),
+        this.toMoney(entry.price),
+        this.toMoney(entry.amount),
+        entry.currency,
+        entry.description,
+        entry.id,
+      ]),
+    ];
+    await this.save(`stake-transactions-${this.today()}.csv`, 'Transactions', rows);
+  }
+
+  /** Shares held now, valued at the latest prices */
+  async exportHoldings(): Promise<void> {
+    const portfolio = this.portfolioService.getCurrentPortfolio();
+    if (!portfolio) {
+      throw new Error('Your portfolio has not loaded yet');
+    }
+
+    const rows: CsvCell[][] = [
+      [
+        'Symbol',
+        'Name',
+        'Quantity',
+        'Currency',
+        'Price',
+        'Cost basis',
+        'Market value',
+        'Unrealized gain/loss',
+        'Realized gain/loss',
+        `Market value (${portfolio.baseCurrency})`,
+      ],
+      ...portfolio.holdings.map(holding => [
+        holding.stock.symbol,
+        holding.stock.companyName,
+        this.toQuantity(holding.quantity),
+        holding.stock.currency ?? APP_CONSTANTS.DEFAULT_CURRENCY,
+        this.toMoney(holding.stock.price),
+        this.toMoney(holding.costBasis),
+        this.toMoney(holding.totalValue),
+        this.toMoney(holding.gainLoss),
+        this.toMoney(holding.realizedGainLoss),
+        this.toMoney(holding.convertedValue),
+      ]),
+    ];
+    await this.save(`stake-holdings-${this.today()}.csv`, 'Holdings', rows);
+  }
+
+  /** Each disposal in the financial year, then the totals per currency and term */
+  async exportRealizedGains(financialYear: FinancialYear): Promise<void> {
+    const report = this.taxReportService.getRealizedGains(financialYear);
+    const rows: CsvCell[][] = [
+      [
+        'Symbol',
+        'Acquired',
+        'Disposed',
+        'Quantity',
+        'Currency',
+        'Proceeds',
+        'Cost basis',
+        'Fees',
+        'Gain/loss',
+        'Term',
+      ],
+      ...report.gains.map(gain => [
+        gain.symbol,
+        gain.acquiredAt,
+        gain.disposedAt,
+        this.toQuantity(gain.quantity),
+        gain.currency,
+        this.toMoney(gain.proceeds),
+        this.toMoney(gain.costBasis),
+        this.toMoney(gain.fees),
+        this.toMoney(gain.gainLoss),
+        gain.term === 'long' ? 'Long-term' : 'Short-term',
+      ]),
+      [],
+      ['Totals', financialYear.label],
+      ...report.totals.map(total => [
+        total.term === 'long' ? 'Long-term' : 'Short-term',
+        '',
+        '',
+        '',
+        total.currency,
+        this.toMoney(total.proceeds),
+        this.toMoney(total.costBasis),
+        this.toMoney(total.fees),
+        this.toMoney(total.gainLoss),
+        '',
+      ]),
+    ];
+    const fileLabel = financialYear.label.replace('–', '-');
+    await this.save(`stake-realized-gains-${fileLabel}.csv`, 'Realized gains', rows);
+  }
+
+  toCsv(rows: CsvCell[][]): string {
+    return rows.map(row => row.map(cell => this.toCell(cell)).join(',')).join('\r\n');
+  }
+
+  private toCell(cell: CsvCell): string {
+    if (typeof cell === 'number') {
+      return String(cell);
+    }
+    // Stop spreadsheets treating text such as a description as a formula
+    const text = /^[=+\-@]/.test(cell) ? `'${cell}` : cell;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private toMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private toQuantity(value: number): number {
+    return Math.round(value * 1e8) / 1e8;
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private async save(fileName: string, title: string, rows: CsvCell[][]): Promise<void> {
+    const csv = this.toCsv(rows);
+
+    if (!Capacitor.isNativePlatform()) {
+      const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      // Revoking straight away can cancel the download in some browsers
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      return;
+    }
+
+    const { uri } = await Filesystem.writeFile({
+      path: fileName,
+      data: csv,
+      directory: Directory.Cache,
+      encoding: Encoding.UTF8,
+    });
+    try {
+      await Share.share({ title, files: [uri] });
+    } catch (error) {
+      // Closing the share sheet without picking anything isn't an error
+      if (!/cancel/i.test((error as Error).message)) {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable, inject } from '@angular/core';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import { FeeSchedule, OrderEstimate, OrderSide } from '../interfaces';
+import { FxRateService } from './fx-rate.service';
+
+/**
+ * Single source of the fee model. The order modal uses it for pre-trade
+ * estimates and PortfolioService uses it when booking trades, so the two
+ * always agree.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class FeeService {
+  private fxRateService = inject(FxRateService);
+
+  private schedule: FeeSchedule = {
+    flatFee: APP_CONSTANTS.FEES.FLAT_FEE,
+    percentageFee: APP_CONSTANTS.FEES.PERCENTAGE_FEE,
+    minimumFee: APP_CONSTANTS.FEES.MINIMUM_FEE,
+    fxFeePercent: APP_CONSTANTS.FEES.FX_FEE_PERCENT,
+  };
+
+  getFeeSchedule(): FeeSchedule {
+    return { ...this.schedule };
+  }
+
+  setFeeSchedule(schedule: Partial<FeeSchedule>): void {
+    this.schedule = { ...this.schedule, ...schedule };
+  }
+
+  calculateBrokerage(grossAmount: number): number {
+    if (grossAmount <= 0) {
+      return 0;
+    }
+    const { flatFee, percentageFee, minimumFee } = this.schedule;
+    return this.roundCents(Math.max(minimumFee, flatFee + grossAmount * percentageFee));
+  }
+
+  calculateFxCost(grossAmount: number): number {
+    return grossAmount > 0 ? this.roundCents(grossAmount * this.schedule.fxFeePercent) : 0;
+  }
+
+  /**
+   * Breaks an order down into gross value, fees and the net cash movement,
+   * all in the base currency. The FX charge only applies when the stock's
+   * currency has to be converted.
+   */
+  estimateOrder(
+    side: OrderSide,
+    shares: number,
+    price: number,
+    currency: string = APP_CONSTANTS.DEFAULT_CURRENCY
+  ): OrderEstimate {
+    const baseCurrency = this.fxRateService.getBaseCurrency();
+    const grossAmount = this.roundCents(
+      Math.max(0, this.fxRateService.convert(shares * price, currency, baseCurrency))
+    );
+    const brokerage = this.calculateBrokerage(grossAmount);
+    const fxCost = currency === baseCurrency ? 0 : this.calculateFxCost(grossAmount);
+    const totalFees = this.roundCents(brokerage + fxCost);
+
+    return {
+      side,
+      currency: baseCurrency,
+      shares,
+      price,
+      grossAmount,
+      brokerage,
+      fxCost,
+      totalFees,
+      netAmount:
+        side === 'buy'
+          ? this.roundCents(grossAmount + totalFees)
+          : this.roundCents(Math.max(0, grossAmount - totalFees)),
+    };
+  }
+
+  private roundCents(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
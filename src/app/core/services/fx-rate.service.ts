@@ -0,0 +1,91 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import { FxRates, Stock } from '../interfaces';
+import { ErrorHandlerService } from './error-handler.service';
+import { LocalStorageService } from './local-storage.service';
+import { MARKET_DATA_PROVIDER } from './market-data.token';
+
+/**
+ * Exchange rates from the market data provider and the user's base currency,
+ * which portfolio totals and cash are kept in.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class FxRateService {
+  private marketData = inject(MARKET_DATA_PROVIDER);
+  private localStorageService = inject(LocalStorageService);
+  private errorHandler = inject(ErrorHandlerService);
+
+  // Until the first fetch lands only same-currency conversions are possible
+  private ratesSubject = new BehaviorSubject<FxRates>({
+    base: APP_CONSTANTS.DEFAULT_BASE_CURRENCY,
+    rates: { [APP_CONSTANTS.DEFAULT_BASE_CURRENCY]: 1 },
+    asOf: new Date(0).toISOString(),
+  });
+  public rates$ = this.ratesSubject.asObservable();
+
+  private baseCurrencySubject = new BehaviorSubject<string>(
+    this.localStorageService.getBaseCurrency() ?? APP_CONSTANTS.DEFAULT_BASE_CURRENCY
+  );
+  public baseCurrency$ = this.baseCurrencySubject.asObservable();
+
+  constructor() {
+    this.refreshRates();
+  }
+
+  refreshRates(): void {
+    this.marketData.getFxRates().subscribe({
+      next: rates => this.ratesSubject.next(rates),
+      error: error => this.errorHandler.handleError(error as Error, false),
+    });
+  }
+
+  getBaseCurrency(): string {
+    return this.baseCurrencySubject.value;
+  }
+
+  setBaseCurrency(currency: string): void {
+    if (!this.getSupportedCurrencies().includes(currency)) {
+      throw new Error(`${currency} is not a supported currency`);
+    }
+    if (currency === this.getBaseCurrency()) {
+      return;
+    }
+    this.localStorageService.saveBaseCurrency(currency);
+    this.baseCurrencySubject.next(currency);
+  }
+
+  getSupportedCurrencies(): string[] {
+    const currencies = new Set([
+      ...Object.keys(this.ratesSubject.value.rates),
+      this.getBaseCurrency(),
+    ]);
+    return [...currencies].sort();
+  }
+
+  /** Currency a stock trades in */
+  currencyOf(stock: Pick<Stock, 'currency'>): string {
+    return stock.currency ?? APP_CONSTANTS.DEFAULT_CURRENCY;
+  }
+
+  /** Units of `to` bought by one unit of `from`. Throws when either rate is unknown. */
+  getRate(from: string, to: string): number {
+    if (from === to) {
+      return 1;
+    }
+    const { rates } = this.ratesSubject.value;
+    const fromRate = rates[from];
+    const toRate = rates[to];
+    if (!fromRate || !toRate) {
+      throw new Error(`No exchange rate available from ${from} to ${to}`);
+    }
+    return toRate / fromRate;
+  }
+
+  /** Converts an amount between currencies, into the base currency by default */
+  convert(amount: number, from: string, to = this.getBaseCurrency()): number {
+    return amount * this.getRate(from, to);
+  }
+}
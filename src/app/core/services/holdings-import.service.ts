@@ -0,0 +1,288 @@
+import { Injectable, inject } from '@angular/core';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import {
+  ImportDateOrder,
+  ImportField,
+  ImportPreset,
+  ImportPreview,
+  ImportRow,
+} from '../interfaces';
+import { FxRateService } from './fx-rate.service';
+import { LedgerService } from './ledger.service';
+import { PortfolioService } from './portfolio.service';
+
+const REQUIRED_FIELDS: ImportField[] = ['symbol', 'quantity', 'cost', 'date'];
+const SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9.-]{0,11}$/;
+
+// Column layouts of the statements a few brokers export; the first is the fallback
+const PRESETS: ImportPreset[] = [
+  {
+    id: 'generic',
+    label: 'Generic CSV',
+    columns: {
+      symbol: 'Symbol',
+      quantity: 'Quantity',
+      cost: 'Cost per share',
+      date: 'Date',
+      currency: 'Currency',
+    },
+    costIsTotal: false,
+    dateOrder: 'dmy',
+  },
+  {
+    id: 'interactive-brokers',
+    label: 'Interactive Brokers',
+    columns: {
+      symbol: 'Symbol',
+      quantity: 'Quantity',
+      cost: 'CostBasisMoney',
+      date: 'OpenDateTime',
+      currency: 'CurrencyPrimary',
+    },
+    costIsTotal: true,
+    dateOrder: 'dmy',
+  },
+  {
+    id: 'robinhood',
+    label: 'Robinhood',
+    columns: {
+      symbol: 'Instrument',
+      quantity: 'Quantity',
+      cost: 'Price',
+      date: 'Activity Date',
+      currency: null,
+    },
+    costIsTotal: false,
+    dateOrder: 'mdy',
+  },
+];
+
+/**
+ * Reads holdings from another broker's CSV statement. Each row is checked and
+ * previewed before the valid ones are recorded as opening balances.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class HoldingsImportService {
+  private fxRateService = inject(FxRateService);
+  private ledgerService = inject(LedgerService);
+  private portfolioService = inject(PortfolioService);
+
+  getPresets(): ImportPreset[] {
+    return PRESETS;
+  }
+
+  /** The first preset whose required columns are all in the statement, or the generic one */
+  detectPreset(csv: string): ImportPreset {
+    const headers = this.parseCsv(csv)[0] ?? [];
+    return (
+      PRESETS.find(preset => this.getMissingFields(headers, preset).length === 0) ?? PRESETS[0]!
+    );
+  }
+
+  /** Reads and checks every row of a statement laid out as the preset describes */
+  preview(csv: string, preset: ImportPreset, now = new Date()): ImportPreview {
+    const [headers = [], ...records] = this.parseCsv(csv);
+    const missingFields = this.getMissingFields(headers, preset);
+    if (missingFields.length > 0) {
+      return { headers, missingFields, rows: [] };
+    }
+
+    const columnOf = (field: ImportField) => {
+      const header = preset.columns[field]?.toLowerCase();
+      return header ? headers.findIndex(h => h.toLowerCase() === header) : -1;
+    };
+    const columns = {
+      symbol: columnOf('symbol'),
+      quantity: columnOf('quantity'),
+      cost: columnOf('cost'),
+      date: columnOf('date'),
+      currency: columnOf('currency'),
+    };
+
+    // Rows already seen in this file, by entry ID
+    const seen = new Map<string, number>();
+    const rows = records.map((record, index) => {
+      const cell = (column: number) => (column >= 0 ? (record[column] ?? '') : '');
+      const row = this.toRow(
+        index + 2,
+        {
+          symbol: cell(columns.symbol),
+          quantity: cell(columns.quantity),
+          cost: cell(columns.cost),
+          date: cell(columns.date),
+          currency: cell(columns.currency),
+        },
+        preset,
+        now
+      );
+
+      const firstRow = seen.get(row.id);
+      if (firstRow !== undefined) {
+        row.errors.push(`Same as row ${firstRow}`);
+      } else if (row.errors.length === 0) {
+        seen.set(row.id, row.row);
+        if (this.ledgerService.hasEntry(row.id)) {
+          row.errors.push('Already imported');
+        }
+      }
+      return row;
+    });
+
+    return { headers, missingFields, rows };
+  }
+
+  /**
+   * Records the valid rows of a preview as opening balances; returns how many.
+   * Rows imported since the preview was built are skipped.
+   */
+  importRows(preview: ImportPreview): number {
+    const rows = preview.rows.filter(
+      row => row.errors.length === 0 && !this.ledgerService.hasEntry(row.id)
+    );
+    this.portfolioService.importOpeningBalances(rows);
+    return rows.length;
+  }
+
+  /** Splits CSV text into rows of trimmed cells, skipping blank lines */
+  parseCsv(csv: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    const text = csv.replace(/^\uFEFF/, '');
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell.trim());
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        // A \r\n line ending is one break
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(cell.trim());
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    row.push(cell.trim());
+    rows.push(row);
+
+    return rows.filter(cells => cells.some(value => value !== ''));
+  }
+
+  private getMissingFields(headers: string[], preset: ImportPreset): ImportField[] {
+    const available = new Set(headers.map(header => header.toLowerCase()));
+    // Without a currency column, every row is in the default currency
+    return REQUIRED_FIELDS.filter(field => {
+      const header = preset.columns[field];
+      return !header || !available.has(header.toLowerCase());
+    });
+  }
+
+  private toRow(
+    rowNumber: number,
+    cells: Record<ImportField, string>,
+    preset: ImportPreset,
+    now: Date
+  ): ImportRow {
+    const errors: string[] = [];
+
+    const symbol = cells.symbol.toUpperCase();
+    if (!symbol) {
+      errors.push('Symbol is missing');
+    } else if (!SYMBOL_PATTERN.test(symbol)) {
+      errors.push(`"${cells.symbol}" isn't a valid symbol`);
+    }
+
+    const quantity = this.parseNumber(cells.quantity);
+    if (!(quantity > 0)) {
+      errors.push('Quantity must be a number above zero');
+    }
+
+    const cost = this.parseNumber(cells.cost);
+    if (!(cost >= 0)) {
+      errors.push('Cost must be a number of zero or more');
+    }
+    const costPerShare = preset.costIsTotal && quantity > 0 ? cost / quantity : cost;
+
+    const date = this.parseDate(cells.date, preset.dateOrder);
+    if (!date) {
+      errors.push(cells.date ? `"${cells.date}" isn't a date` : 'Date is missing');
+    } else if (date > now) {
+      errors.push('Date is in the future');
+    }
+    const acquiredAt = date ? date.toISOString() : '';
+
+    // Holdings are valued in the base currency, so there has to be a rate for theirs
+    const currency = cells.currency.toUpperCase() || APP_CONSTANTS.DEFAULT_CURRENCY;
+    if (!this.fxRateService.getSupportedCurrencies().includes(currency)) {
+      errors.push(`"${cells.currency}" isn't a supported currency`);
+    }
+
+    return {
+      id: `import-${symbol}-${acquiredAt}-${quantity}-${costPerShare}`,
+      row: rowNumber,
+      symbol,
+      quantity,
+      costPerShare,
+      acquiredAt,
+      currency,
+      errors,
+    };
+  }
+
+  /** Reads amounts like "1,234.50", "$12" or "(3.00)"; NaN when there's no number */
+  private parseNumber(text: string): number {
+    const negative = /^\(.*\)$/.test(text);
+    const digits = text.replace(/[\s,$€£()]/g, '');
+    if (!/^-?\d*\.?\d+$/.test(digits)) {
+      return NaN;
+    }
+    return Number(digits) * (negative ? -1 : 1);
+  }
+
+  /**
+   * Reads ISO dates, compact ones like 20240315, and day or month first dates
+   * like 15/03/2024. Dates without a time are taken as local midnight.
+   */
+  private parseDate(text: string, order: ImportDateOrder): Date | null {
+    let year: number;
+    let month: number;
+    let day: number;
+
+    const iso = /^(\d{4})-?(\d{2})-?(\d{2})(?:$|[T ;])/.exec(text);
+    const local = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:$| )/.exec(text);
+    if (iso) {
+      [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else if (local) {
+      const [first, second] = [Number(local[1]), Number(local[2])];
+      [day, month] = order === 'dmy' ? [first, second] : [second, first];
+      year = Number(local[3]);
+      year = year < 100 ? 2000 + year : year;
+    } else {
+      return null;
+    }
+
+    // Rolls over for days a month doesn't have, like 31 April
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+  }
+}
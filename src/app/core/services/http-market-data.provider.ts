@@ -0,0 +1,76 @@
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Injectable, inject } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import {
+  CorporateAction,
+  Fundamentals,
+  FxRates,
+  HistoryRange,
+  MarketDataProvider,
+  MarketMoversCategory,
+  PriceBar,
+  Stock,
+} from '../interfaces';
+
+/**
+ * Market data fetched over HTTP from the backend configured in the
+ * environment file (or the local stand-in server in mock-server/).
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class HttpMarketDataProvider implements MarketDataProvider {
+  private http = inject(HttpClient);
+  private baseUrl = environment.marketData.baseUrl;
+
+  getQuote(symbol: string): Observable<Stock> {
+    return this.http.get<Stock>(`${this.baseUrl}/quotes/${encodeURIComponent(symbol)}`);
+  }
+
+  getQuotes(symbols: string[]): Observable<Stock[]> {
+    if (symbols.length === 0) {
+      return of([]);
+    }
+    const params = new HttpParams().set('symbols', symbols.join(','));
+    return this.http.get<Stock[]>(`${this.baseUrl}/quotes`, { params });
+  }
+
+  search(query: string): Observable<Stock[]> {
+    const params = new HttpParams().set('q', query.trim());
+    return this.http.get<Stock[]>(`${this.baseUrl}/search`, { params });
+  }
+
+  getTrending(): Observable<Stock[]> {
+    return this.http.get<Stock[]>(`${this.baseUrl}/trending`);
+  }
+
+  getMovers(category: MarketMoversCategory): Observable<Stock[]> {
+    return this.http.get<Stock[]>(`${this.baseUrl}/movers/${category}`);
+  }
+
+  getHistory(symbol: string, range: HistoryRange): Observable<PriceBar[]> {
+    const params = new HttpParams().set('range', range);
+    return this.http.get<PriceBar[]>(`${this.baseUrl}/history/${encodeURIComponent(symbol)}`, {
+      params,
+    });
+  }
+
+  getFundamentals(symbol: string): Observable<Fundamentals> {
+    return this.http.get<Fundamentals>(
+      `${this.baseUrl}/fundamentals/${encodeURIComponent(symbol)}`
+    );
+  }
+
+  getFxRates(): Observable<FxRates> {
+    return this.http.get<FxRates>(`${this.baseUrl}/fx`);
+  }
+
+  getCorporateActions(symbols: string[]): Observable<CorporateAction[]> {
+    if (symbols.length === 0) {
+      return of([]);
+    }
+    const params = new HttpParams().set('symbols', symbols.join(','));
+    return this.http.get<CorporateAction[]>(`${this.baseUrl}/corporate-actions`, { params });
+  }
+}
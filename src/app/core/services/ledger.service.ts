@@ -0,0 +1,284 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import { CostBasisMethod, LedgerEntry, Position } from '../interfaces';
+import { LocalStorageService } from './local-storage.service';
+import { MockDataService } from './mock-data.service';
+
+// Share counts below this are treated as zero
+const QUANTITY_EPSILON = 1e-8;
+
+/**
+ * Append-only record of every buy, sell, fee, dividend, transfer and
+ * corporate action.
+ * Positions, tax lots and realized gains are rebuilt from it on demand and
+ * are never edited directly. Every append is saved, so it survives a restart.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LedgerService {
+  private mockDataService = inject(MockDataService);
+  private localStorageService = inject(LocalStorageService);
+
+  // Restores the saved ledger, or starts from the opening balances of the mock portfolio
+  private entriesSubject = new BehaviorSubject<LedgerEntry[]>(
+    this.localStorageService.getLedgerEntries() ?? this.mockDataService.getMockLedger()
+  );
+  public entries$ = this.entriesSubject.asObservable();
+
+  private costBasisMethodSubject = new BehaviorSubject<CostBasisMethod>(
+    this.localStorageService.getCostBasisMethod() ?? APP_CONSTANTS.DEFAULT_COST_BASIS_METHOD
+  );
+  public costBasisMethod$ = this.costBasisMethodSubject.asObservable();
+
+  /** Every entry in the order it was recorded, optionally for one symbol */
+  getEntries(symbol?: string): LedgerEntry[] {
+    const entries = this.entriesSubject.value;
+    return symbol ? entries.filter(entry => entry.symbol === symbol) : entries;
+  }
+
+  /**
+   * Every entry for the shares now held under a symbol, including those
+   * recorded under the symbols it traded as before a symbol change.
+   */
+  getHistory(symbol: string): LedgerEntry[] {
+    const entries = this.entriesSubject.value;
+    const symbols = new Set([symbol]);
+    // Walk back from the latest change, so chains of changes are followed
+    [...entries].reverse().forEach(entry => {
+      if (entry.type === 'symbol_change' && entry.newSymbol && symbols.has(entry.newSymbol)) {
+        symbols.add(entry.symbol);
+      }
+    });
+    return entries.filter(entry => symbols.has(entry.symbol));
+  }
+
+  /** Whether an entry with this ID has been recorded */
+  hasEntry(id: string): boolean {
+    return this.entriesSubject.value.some(entry => entry.id === id);
+  }
+
+  /**
+   * Appends entries in one step, so a trade and its fee are never seen apart.
+   * Throws on negative or non-finite numbers, on splits without a ratio, and
+   * on IDs already recorded.
+   */
+  append(entries: LedgerEntry[]): void {
+    const ids = new Set(this.entriesSubject.value.map(entry => entry.id));
+    entries.forEach(entry => {
+      if (ids.has(entry.id)) {
+        throw new Error(`Ledger entry ${entry.id} has already been recorded`);
+      }
+      ids.add(entry.id);
+      if (![entry.quantity, entry.price, entry.amount].every(n => Number.isFinite(n) && n >= 0)) {
+        throw new Error(`Invalid ledger entry for ${entry.symbol}`);
+      }
+      if (entry.type === 'split' && !(entry.ratio !== undefined && entry.ratio > 0)) {
+        throw new Error(`Invalid split ratio for ${entry.symbol}`);
+      }
+    });
+    const updated = [...this.entriesSubject.value, ...entries];
+    this.localStorageService.saveLedgerEntries(updated);
+    this.entriesSubject.next(updated);
+  }
+
+  getCostBasisMethod(): CostBasisMethod {
+    return this.costBasisMethodSubject.value;
+  }
+
+  setCostBasisMethod(method: CostBasisMethod): void {
+    if (method === this.getCostBasisMethod()) {
+      return;
+    }
+    this.localStorageService.saveCostBasisMethod(method);
+    this.costBasisMethodSubject.next(method);
+  }
+
+  getPosition(symbol: string, method = this.getCostBasisMethod()): Position | undefined {
+    return this.getPositions(method).find(position => position.symbol === symbol);
+  }
+
+  getPositions(method = this.getCostBasisMethod()): Position[] {
+    return this.buildPositions(this.entriesSubject.value, method);
+  }
+
+  /** A position as it stood just before a moment, such as the date of a dividend */
+  getPositionBefore(symbol: string, timestamp: string): Position | undefined {
+    const entries = this.entriesSubject.value.filter(entry => entry.timestamp < timestamp);
+    return this.buildPositions(entries, this.getCostBasisMethod()).find(p => p.symbol === symbol);
+  }
+
+  /**
+   * Replays the entries into one position per symbol, including closed ones.
+   * Entries are replayed in time order, so an action recorded after the fact
+   * still applies to the shares held when it took effect.
+   */
+  buildPositions(entries: LedgerEntry[], method: CostBasisMethod): Position[] {
+    const positions = new Map<string, Position>();
+
+    // Sorting is stable, so a fee stays after the trade it was charged on
+    [...entries]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .forEach(entry => {
+        let position = positions.get(entry.symbol);
+        if (!position) {
+          position = {
+            symbol: entry.symbol,
+            currency: entry.currency,
+            quantity: 0,
+            costBasis: 0,
+            lots: [],
+            disposals: [],
+            realizedGainLoss: 0,
+            dividends: 0,
+            fees: 0,
+          };
+          positions.set(entry.symbol, position);
+        }
+
+        switch (entry.type) {
+          case 'buy':
+          case 'transfer_in':
+            position.lots.push({
+              symbol: entry.symbol,
+              entryId: entry.id,
+              acquiredAt: entry.timestamp,
+              quantity: entry.quantity,
+              costPerShare: entry.price,
+            });
+            break;
+          case 'sell':
+          case 'transfer_out':
+          case 'delisting':
+            this.relieveLots(position, entry, method);
+            break;
+          case 'split':
+            this.splitLots(position, entry.ratio ?? 1);
+            break;
+          case 'symbol_change':
+            if (entry.newSymbol) {
+              this.renamePosition(positions, position, entry.newSymbol);
+            }
+            break;
+          case 'fee':
+            this.applyFee(position, entry);
+            break;
+          case 'dividend':
+            position.dividends += entry.amount;
+            break;
+        }
+      });
+
+    return [...positions.values()].map(position => {
+      const quantity = position.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+      return {
+        ...position,
+        quantity: quantity > QUANTITY_EPSILON ? quantity : 0,
+        costBasis: position.lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerShare, 0),
+        realizedGainLoss: position.disposals.reduce((sum, d) => sum + d.gainLoss, 0),
+      };
+    });
+  }
+
+  /**
+   * Takes shares out of the oldest lots first. Under average cost every lot
+   * is first revalued at the average cost of all shares held, so the lots
+   * only decide the acquisition dates. Transfers out carry their cost basis
+   * away without realizing a gain; delistings realize it at the cash paid out.
+   */
+  private relieveLots(position: Position, entry: LedgerEntry, method: CostBasisMethod): void {
+    if (method === 'average') {
+      const quantity = position.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+      const cost = position.lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerShare, 0);
+      const averageCost = quantity > 0 ? cost / quantity : 0;
+      position.lots.forEach(lot => (lot.costPerShare = averageCost));
+    }
+
+    // Anything beyond the shares held is ignored; trades are checked before they're recorded
+    let remaining = entry.quantity;
+    while (remaining > QUANTITY_EPSILON && position.lots.length > 0) {
+      const lot = position.lots[0]!;
+      const quantity = Math.min(lot.quantity, remaining);
+
+      if (entry.type === 'sell' || entry.type === 'delisting') {
+        const costBasis = quantity * lot.costPerShare;
+        const proceeds = quantity * entry.price;
+        position.disposals.push({
+          symbol: entry.symbol,
+          entryId: entry.id,
+          acquiredAt: lot.acquiredAt,
+          disposedAt: entry.timestamp,
+          quantity,
+          costBasis,
+          proceeds,
+          fees: 0,
+          gainLoss: proceeds - costBasis,
+        });
+      }
+
+      lot.quantity -= quantity;
+      remaining -= quantity;
+      if (lot.quantity <= QUANTITY_EPSILON) {
+        position.lots.shift();
+      }
+    }
+  }
+
+  /**
+   * Multiplies the shares in every lot by the ratio and divides their cost
+   * per share by it, so the cost basis is unchanged.
+   */
+  private splitLots(position: Position, ratio: number): void {
+    position.lots.forEach(lot => {
+      lot.quantity *= ratio;
+      lot.costPerShare /= ratio;
+    });
+  }
+
+  /** Moves a position and its lots and disposals to a new symbol */
+  private renamePosition(
+    positions: Map<string, Position>,
+    position: Position,
+    symbol: string
+  ): void {
+    positions.delete(position.symbol);
+    position.symbol = symbol;
+    position.lots.forEach(lot => (lot.symbol = symbol));
+    position.disposals.forEach(disposal => (disposal.symbol = symbol));
+
+    // Shares already held under the new symbol are merged in
+    const existing = positions.get(symbol);
+    if (existing) {
+      position.lots = [...existing.lots, ...position.lots].sort((a, b) =>
+        a.acquiredAt.localeCompare(b.acquiredAt)
+      );
+      position.disposals = [...existing.disposals, ...position.disposals];
+      position.dividends += existing.dividends;
+      position.fees += existing.fees;
+    }
+    positions.set(symbol, position);
+  }
+
+  /**
+   * Adds a buy fee to the cost of the lot it bought, or takes a sell fee off
+   * the gain of the shares it sold, split by share count.
+   */
+  private applyFee(position: Position, entry: LedgerEntry): void {
+    position.fees += entry.amount;
+
+    const lot = position.lots.find(l => l.entryId === entry.relatedEntryId);
+    if (lot && lot.quantity > 0) {
+      lot.costPerShare += entry.amount / lot.quantity;
+      return;
+    }
+
+    const disposals = position.disposals.filter(d => d.entryId === entry.relatedEntryId);
+    const quantity = disposals.reduce((sum, d) => sum + d.quantity, 0);
+    disposals.forEach(disposal => {
+      const fee = (entry.amount * disposal.quantity) / quantity;
+      disposal.fees += fee;
+      disposal.gainLoss -= fee;
+    });
+  }
+}
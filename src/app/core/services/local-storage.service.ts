@@ -1,12 +1,33 @@
 import { Injectable } from '@angular/core';
 import { APP_CONSTANTS } from '../constants/app.constants';
-import { Stock } from '../interfaces';
+import {
+  CostBasisMethod,
+  FinancialYearStart,
+  LedgerEntry,
+  MarketDataCacheEntry,
+  Order,
+  PendingOrder,
+  Portfolio,
+  RecurringPlan,
+  RecurringRun,
+  Stock,
+} from '../interfaces';
 
 @Injectable({
   providedIn: 'root',
 })
 export class LocalStorageService {
   private readonly RECENT_SEARCHES_KEY = 'stake_recent_searches';
+  private readonly PENDING_ORDERS_KEY = 'stake_pending_orders';
+  private readonly ORDER_HISTORY_KEY = 'stake_order_history';
+  private readonly RECURRING_PLANS_KEY = 'stake_recurring_plans';
+  private readonly RECURRING_RUNS_KEY = 'stake_recurring_runs';
+  private readonly MARKET_DATA_CACHE_KEY = 'stake_market_data_cache';
+  private readonly BASE_CURRENCY_KEY = 'stake_base_currency';
+  private readonly COST_BASIS_METHOD_KEY = 'stake_cost_basis_method';
+  private readonly FINANCIAL_YEAR_START_KEY = 'stake_financial_year_start';
+  private readonly LEDGER_KEY = 'stake_ledger';
+  private readonly CASH_KEY = 'stake_cash';
 
   getRecentSearches(): Stock[] {
     try {
@@ -46,4 +67,184 @@ export class LocalStorageService {
       console.error('Error clearing recent searches:', error);
     }
   }
+
+  getPendingOrders(): PendingOrder[] {
+    try {
+      const stored = localStorage.getItem(this.PENDING_ORDERS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading pending orders:', error);
+      return [];
+    }
+  }
+
+  savePendingOrders(orders: PendingOrder[]): void {
+    try {
+      localStorage.setItem(this.PENDING_ORDERS_KEY, JSON.stringify(orders));
+    } catch (error) {
+      console.error('Error saving pending orders:', error);
+    }
+  }
+
+  getOrderHistory(): Order[] {
+    try {
+      const stored = localStorage.getItem(this.ORDER_HISTORY_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading order history:', error);
+      return [];
+    }
+  }
+
+  saveOrderHistory(orders: Order[]): void {
+    try {
+      localStorage.setItem(this.ORDER_HISTORY_KEY, JSON.stringify(orders));
+    } catch (error) {
+      console.error('Error saving order history:', error);
+    }
+  }
+
+  getRecurringPlans(): RecurringPlan[] {
+    try {
+      const stored = localStorage.getItem(this.RECURRING_PLANS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading recurring plans:', error);
+      return [];
+    }
+  }
+
+  saveRecurringPlans(plans: RecurringPlan[]): void {
+    try {
+      localStorage.setItem(this.RECURRING_PLANS_KEY, JSON.stringify(plans));
+    } catch (error) {
+      console.error('Error saving recurring plans:', error);
+    }
+  }
+
+  getRecurringRuns(): RecurringRun[] {
+    try {
+      const stored = localStorage.getItem(this.RECURRING_RUNS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading recurring runs:', error);
+      return [];
+    }
+  }
+
+  saveRecurringRuns(runs: RecurringRun[]): void {
+    try {
+      localStorage.setItem(this.RECURRING_RUNS_KEY, JSON.stringify(runs));
+    } catch (error) {
+      console.error('Error saving recurring runs:', error);
+    }
+  }
+
+  getBaseCurrency(): string | null {
+    try {
+      return localStorage.getItem(this.BASE_CURRENCY_KEY);
+    } catch (error) {
+      console.error('Error loading base currency:', error);
+      return null;
+    }
+  }
+
+  saveBaseCurrency(currency: string): void {
+    try {
+      localStorage.setItem(this.BASE_CURRENCY_KEY, currency);
+    } catch (error) {
+      console.error('Error saving base currency:', error);
+    }
+  }
+
+  getCostBasisMethod(): CostBasisMethod | null {
+    try {
+      return localStorage.getItem(this.COST_BASIS_METHOD_KEY) as CostBasisMethod | null;
+    } catch (error) {
+      console.error('Error loading cost basis method:', error);
+      return null;
+    }
+  }
+
+  saveCostBasisMethod(method: CostBasisMethod): void {
+    try {
+      localStorage.setItem(this.COST_BASIS_METHOD_KEY, method);
+    } catch (error) {
+      console.error('Error saving cost basis method:', error);
+    }
+  }
+
+  getFinancialYearStart(): FinancialYearStart | null {
+    try {
+      const stored = localStorage.getItem(this.FINANCIAL_YEAR_START_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error loading financial year start:', error);
+      return null;
+    }
+  }
+
+  saveFinancialYearStart(start: FinancialYearStart): void {
+    try {
+      localStorage.setItem(this.FINANCIAL_YEAR_START_KEY, JSON.stringify(start));
+    } catch (error) {
+      console.error('Error saving financial year start:', error);
+    }
+  }
+
+  /** Every ledger entry recorded, or null before anything has been saved */
+  getLedgerEntries(): LedgerEntry[] | null {
+    try {
+      const stored = localStorage.getItem(this.LEDGER_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error loading ledger:', error);
+      return null;
+    }
+  }
+
+  saveLedgerEntries(entries: LedgerEntry[]): void {
+    try {
+      localStorage.setItem(this.LEDGER_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Error saving ledger:', error);
+    }
+  }
+
+  /** Cash balances and movements with the currency they're in, or null before any are saved */
+  getCash(): Pick<Portfolio, 'baseCurrency' | 'cash'> | null {
+    try {
+      const stored = localStorage.getItem(this.CASH_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error loading cash:', error);
+      return null;
+    }
+  }
+
+  saveCash(cash: Pick<Portfolio, 'baseCurrency' | 'cash'>): void {
+    try {
+      localStorage.setItem(this.CASH_KEY, JSON.stringify(cash));
+    } catch (error) {
+      console.error('Error saving cash:', error);
+    }
+  }
+
+  getMarketDataCache(): Record<string, MarketDataCacheEntry> {
+    try {
+      const stored = localStorage.getItem(this.MARKET_DATA_CACHE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error loading market data cache:', error);
+      return {};
+    }
+  }
+
+  saveMarketDataCache(entries: Record<string, MarketDataCacheEntry>): void {
+    try {
+      localStorage.setItem(this.MARKET_DATA_CACHE_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Error saving market data cache:', error);
+    }
+  }
 }
@@ -0,0 +1,27 @@
+import { InjectionToken, Provider } from '@angular/core';
+import { environment } from '../../../environments/environment';
+import { MarketDataProvider } from '../interfaces';
+import { CachedMarketDataProvider } from './cached-market-data.provider';
+import { HttpMarketDataProvider } from './http-market-data.provider';
+import { MockMarketDataProvider } from './mock-market-data.provider';
+
+/** Market data for the app to use, served through the cache */
+export const MARKET_DATA_PROVIDER = new InjectionToken<MarketDataProvider>('MARKET_DATA_PROVIDER');
+
+/** Uncached implementation the cache fetches from */
+export const MARKET_DATA_SOURCE = new InjectionToken<MarketDataProvider>('MARKET_DATA_SOURCE');
+
+/**
+ * Binds MARKET_DATA_SOURCE to the implementation selected in the environment
+ * file and MARKET_DATA_PROVIDER to the cache in front of it.
+ */
+export function provideMarketData(): Provider[] {
+  return [
+    {
+      provide: MARKET_DATA_SOURCE,
+      useExisting:
+        environment.marketData.source === 'http' ? HttpMarketDataProvider : MockMarketDataProvider,
+    },
+    { provide: MARKET_DATA_PROVIDER, useExisting: CachedMarketDataProvider },
+  ];
+}
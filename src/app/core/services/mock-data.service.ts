@@ -1,5 +1,40 @@
 import { Injectable } from '@angular/core';
-import { Portfolio, Stock, StockHolding } from '../interfaces';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import {
+  CorporateAction,
+  Fundamentals,
+  FxRates,
+  HistoryRange,
+  LedgerEntry,
+  MarketMoversCategory,
+  PriceBar,
+  Stock,
+} from '../interfaces';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Number of bars and spacing between them for each history range
+const HISTORY_RANGES: Record<HistoryRange, { bars: number; intervalMs: number }> = {
+  '1D': { bars: 78, intervalMs: 5 * MINUTE_MS },
+  '1W': { bars: 35, intervalMs: 60 * MINUTE_MS },
+  '1M': { bars: 22, intervalMs: DAY_MS },
+  '3M': { bars: 63, intervalMs: DAY_MS },
+  '1Y': { bars: 252, intervalMs: DAY_MS },
+  ALL: { bars: 260, intervalMs: 7 * DAY_MS },
+};
+
+/** Small deterministic PRNG (mulberry32) seeded from a string */
+function seededRandom(seed: string): () => number {
+  let state = [...seed].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
 
 @Injectable({
   providedIn: 'root',
@@ -15,6 +50,9 @@ export class MockDataService {
         changePercent: 0.229,
         volume: 68544000,
         logo: 'assets/icon/brand/figma.svg', // Using Figma logo as placeholder
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        fractionalPrecision: 4,
       },
       {
         symbol: 'TSLA',
@@ -24,6 +62,9 @@ export class MockDataService {
         changePercent: 0.229,
         volume: 85430000,
         logo: 'assets/icon/brand/figma.svg', // Using Figma logo as placeholder
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        fractionalPrecision: 4,
       },
       {
         symbol: 'TIK',
@@ -33,6 +74,9 @@ export class MockDataService {
         changePercent: 0.229,
         volume: 32100000,
         logo: 'assets/icon/brand/figma.svg', // Using Figma logo as placeholder
+        exchange: 'NYSE',
+        currency: 'USD',
+        fractionalPrecision: 2,
       },
       {
         symbol: 'FIG',
@@ -42,6 +86,9 @@ export class MockDataService {
         changePercent: -0.0213,
         volume: 32100000,
         logo: 'assets/icon/brand/figma.svg',
+        exchange: 'NYSE',
+        currency: 'USD',
+        fractionalPrecision: 4,
       },
       {
         symbol: 'ABNB',
@@ -51,6 +98,9 @@ export class MockDataService {
         changePercent: 0.0115,
         volume: 28900000,
         logo: 'assets/icon/brand/airbnb.svg',
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        fractionalPrecision: 2,
       },
       {
         symbol: 'BABA',
@@ -60,84 +110,419 @@ export class MockDataService {
         changePercent: -0.013,
         volume: 42300000,
         logo: 'assets/icon/brand/ababa.svg',
+        exchange: 'NYSE',
+        currency: 'USD',
+        fractionalPrecision: 0,
+        minOrderQuantity: 1,
+      },
+      {
+        symbol: 'BHP',
+        companyName: 'BHP Group',
+        price: 44.1,
+        change: 0.38,
+        changePercent: 0.0087,
+        volume: 9800000,
+        exchange: 'ASX',
+        currency: 'AUD',
+        fractionalPrecision: 0,
+        minOrderQuantity: 1,
+      },
+      {
+        symbol: 'MSFT',
+        companyName: 'Microsoft Corporation',
+        price: 412.3,
+        change: 3.12,
+        changePercent: 0.0076,
+        volume: 21400000,
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        fractionalPrecision: 4,
+      },
+      {
+        symbol: 'NVDA',
+        companyName: 'NVIDIA Corporation',
+        price: 118.6,
+        change: 4.92,
+        changePercent: 0.0433,
+        volume: 312000000,
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        fractionalPrecision: 4,
+      },
+      {
+        symbol: 'AMZN',
+        companyName: 'Amazon.com, Inc.',
+        price: 178.25,
+        change: -1.62,
+        changePercent: -0.009,
+        volume: 39800000,
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        fractionalPrecision: 4,
+      },
+      {
+        symbol: 'GOOGL',
+        companyName: 'Alphabet Inc.',
+        price: 164.1,
+        change: 0.82,
+        changePercent: 0.005,
+        volume: 24500000,
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        fractionalPrecision: 4,
+      },
+      {
+        symbol: 'META',
+        companyName: 'Meta Platforms, Inc.',
+        price: 502.9,
+        change: -8.41,
+        changePercent: -0.0164,
+        volume: 15300000,
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        fractionalPrecision: 4,
+      },
+      {
+        symbol: 'NFLX',
+        companyName: 'Netflix, Inc.',
+        price: 648.2,
+        change: 12.6,
+        changePercent: 0.0198,
+        volume: 3900000,
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        fractionalPrecision: 2,
+      },
+      {
+        symbol: 'AMD',
+        companyName: 'Advanced Micro Devices, Inc.',
+        price: 156.4,
+        change: -5.1,
+        changePercent: -0.0316,
+        volume: 52100000,
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        fractionalPrecision: 4,
+      },
+      {
+        symbol: 'UBER',
+        companyName: 'Uber Technologies, Inc.',
+        price: 71.35,
+        change: 2.44,
+        changePercent: 0.0354,
+        volume: 18700000,
+        exchange: 'NYSE',
+        currency: 'USD',
+        fractionalPrecision: 2,
+      },
+      {
+        symbol: 'SHOP',
+        companyName: 'Shopify Inc.',
+        price: 68.9,
+        change: -3.05,
+        changePercent: -0.0424,
+        volume: 11200000,
+        exchange: 'NYSE',
+        currency: 'USD',
+        fractionalPrecision: 2,
+      },
+      {
+        symbol: 'PLTR',
+        companyName: 'Palantir Technologies Inc.',
+        price: 24.15,
+        change: 1.87,
+        changePercent: 0.0839,
+        volume: 64800000,
+        exchange: 'NYSE',
+        currency: 'USD',
+        fractionalPrecision: 2,
+      },
+      {
+        symbol: 'COIN',
+        companyName: 'Coinbase Global, Inc.',
+        price: 221.7,
+        change: -14.3,
+        changePercent: -0.0606,
+        volume: 9600000,
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        fractionalPrecision: 2,
+      },
+      {
+        symbol: 'DIS',
+        companyName: 'The Walt Disney Company',
+        price: 96.8,
+        change: 0.42,
+        changePercent: 0.0044,
+        volume: 8100000,
+        exchange: 'NYSE',
+        currency: 'USD',
+        fractionalPrecision: 2,
+      },
+      {
+        symbol: 'KO',
+        companyName: 'The Coca-Cola Company',
+        price: 62.4,
+        change: -0.11,
+        changePercent: -0.0018,
+        volume: 12900000,
+        exchange: 'NYSE',
+        currency: 'USD',
+        fractionalPrecision: 2,
+      },
+      {
+        symbol: 'SPY',
+        companyName: 'SPDR S&P 500 ETF Trust',
+        type: 'etf',
+        price: 548.2,
+        change: 2.74,
+        changePercent: 0.005,
+        volume: 45200000,
+        exchange: 'NYSE',
+        currency: 'USD',
+        fractionalPrecision: 4,
+      },
+      {
+        symbol: 'QQQ',
+        companyName: 'Invesco QQQ Trust',
+        type: 'etf',
+        price: 471.35,
+        change: 3.3,
+        changePercent: 0.0071,
+        volume: 33800000,
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        fractionalPrecision: 4,
+      },
+      {
+        symbol: 'VTI',
+        companyName: 'Vanguard Total Stock Market ETF',
+        type: 'etf',
+        price: 271.9,
+        change: 1.09,
+        changePercent: 0.004,
+        volume: 3100000,
+        exchange: 'NYSE',
+        currency: 'USD',
+        fractionalPrecision: 4,
       },
     ];
   }
 
-  getMockPortfolio(): Portfolio {
-    const stocks = this.getMockStocks();
-    const holdings: StockHolding[] = [
+  /**
+   * Opening balances transferred in before the app's history starts. AAPL
+   * was bought in two lots, so FIFO and average cost give different results.
+   */
+  getMockLedger(): LedgerEntry[] {
+    const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+    const opening = (
+      id: string,
+      symbol: string,
+      days: number,
+      quantity: number,
+      price: number
+    ): LedgerEntry => ({
+      id,
+      type: 'transfer_in',
+      symbol,
+      timestamp: daysAgo(days),
+      quantity,
+      price,
+      amount: 0,
+      currency: APP_CONSTANTS.DEFAULT_CURRENCY,
+      description: `Opening balance of ${quantity} ${symbol}`,
+    });
+
+    // Every position averages $81.32 a share, TSLA once its 3-for-1 split is applied
+    return [
+      opening('opening-aapl-1', 'AAPL', 420, 2, 75.1),
+      opening('opening-tsla-1', 'TSLA', 200, 1.0094, 243.96),
+      opening('opening-aapl-2', 'AAPL', 60, 1.0282, 93.4179),
+      opening('opening-tik-1', 'TIK', 30, 3.0282, 81.32),
+    ];
+  }
+
+  /**
+   * Deterministic random-walk price history that ends at the stock's current
+   * price, so the same symbol and range always draw the same chart.
+   */
+  getMockHistory(stock: Stock, range: HistoryRange): PriceBar[] {
+    const { bars, intervalMs } = HISTORY_RANGES[range];
+    const volatility = range === '1D' || range === '1W' ? 0.003 : 0.015;
+    const random = seededRandom(`${stock.symbol}-${range}`);
+    const now = Date.now();
+
+    const history: PriceBar[] = [];
+    let close = stock.price;
+    for (let i = 0; i < bars; i++) {
+      const open = close / (1 + (random() - 0.5) * 2 * volatility);
+      const high = Math.max(open, close) * (1 + random() * volatility);
+      const low = Math.min(open, close) * (1 - random() * volatility);
+      history.unshift({
+        timestamp: new Date(now - i * intervalMs).toISOString(),
+        open: Math.round(open * 100) / 100,
+        high: Math.round(high * 100) / 100,
+        low: Math.round(low * 100) / 100,
+        close: Math.round(close * 100) / 100,
+        volume: Math.round((stock.volume / bars) * (0.5 + random())),
+      });
+      close = open;
+    }
+    return history;
+  }
+
+  getMockFundamentals(symbol: string): Fundamentals | undefined {
+    const fundamentals: Fundamentals[] = [
+      {
+        symbol: 'AAPL',
+        marketCap: 1580000000000,
+        peRatio: 27.4,
+        eps: 3.85,
+        dividendYield: 0.0052,
+        fiftyTwoWeekHigh: 118.2,
+        fiftyTwoWeekLow: 79.6,
+        sector: 'Technology',
+        industry: 'Consumer Electronics',
+        exchange: 'NASDAQ',
+        description:
+          'Apple designs, manufactures and markets smartphones, personal computers, tablets, wearables and accessories, and sells a range of related services.',
+      },
+      {
+        symbol: 'TSLA',
+        marketCap: 336000000000,
+        peRatio: 61.2,
+        eps: 1.72,
+        fiftyTwoWeekHigh: 142.9,
+        fiftyTwoWeekLow: 74.1,
+        sector: 'Consumer Cyclical',
+        industry: 'Auto Manufacturers',
+        exchange: 'NASDAQ',
+        description:
+          'Tesla designs, develops, manufactures and sells electric vehicles and energy generation and storage systems.',
+      },
       {
-        stock: stocks[0]!, // AAPL
-        quantity: 3.0282,
-        averagePrice: 81.32, // Calculated to get +22.90% gain
-        totalValue: stocks[0]!.price * 3.0282, // $105.44 * 3.0282 = $319.25
-        gainLoss: (stocks[0]!.price - 81.32) * 3.0282, // Gain of ~$73.12
-        gainLossPercent: 0.229, // +22.90%
+        symbol: 'TIK',
+        marketCap: 84000000000,
+        peRatio: 34.8,
+        eps: 3.03,
+        fiftyTwoWeekHigh: 121.5,
+        fiftyTwoWeekLow: 70.3,
+        sector: 'Communication Services',
+        industry: 'Internet Content & Information',
+        exchange: 'NYSE',
+        description:
+          'TikTok operates a short-form video platform and related advertising and commerce services.',
       },
       {
-        stock: stocks[1]!, // TSLA
-        quantity: 3.0282,
-        averagePrice: 81.32, // Same as AAPL for consistency
-        totalValue: stocks[1]!.price * 3.0282, // $105.44 * 3.0282 = $319.25
-        gainLoss: (stocks[1]!.price - 81.32) * 3.0282, // Gain of ~$73.12
-        gainLossPercent: 0.229, // +22.90%
+        symbol: 'FIG',
+        marketCap: 36900000000,
+        eps: -0.42,
+        fiftyTwoWeekHigh: 142.92,
+        fiftyTwoWeekLow: 88.1,
+        sector: 'Technology',
+        industry: 'Software—Application',
+        exchange: 'NYSE',
+        description:
+          'Figma provides a browser-based collaborative design platform for interface design, prototyping and developer handoff.',
       },
       {
-        stock: stocks[2]!, // TIK
-        quantity: 3.0282,
-        averagePrice: 81.32, // Same as others for consistency
-        totalValue: stocks[2]!.price * 3.0282, // $105.44 * 3.0282 = $319.25
-        gainLoss: (stocks[2]!.price - 81.32) * 3.0282, // Gain of ~$73.12
-        gainLossPercent: 0.229, // +22.90%
+        symbol: 'ABNB',
+        marketCap: 69800000000,
+        peRatio: 36.1,
+        eps: 3.04,
+        fiftyTwoWeekHigh: 170.1,
+        fiftyTwoWeekLow: 99.88,
+        sector: 'Consumer Cyclical',
+        industry: 'Travel Services',
+        exchange: 'NASDAQ',
+        description:
+          'Airbnb operates a marketplace for short- and long-term stays and experiences hosted by individuals.',
+      },
+      {
+        symbol: 'BABA',
+        marketCap: 212000000000,
+        peRatio: 12.3,
+        eps: 7.11,
+        dividendYield: 0.0114,
+        fiftyTwoWeekHigh: 148.43,
+        fiftyTwoWeekLow: 68.36,
+        sector: 'Consumer Cyclical',
+        industry: 'Internet Retail',
+        exchange: 'NYSE',
+        description:
+          'Alibaba Group operates online and mobile commerce marketplaces in China and internationally, along with cloud computing and logistics businesses.',
       },
     ];
+    return fundamentals.find(f => f.symbol === symbol);
+  }
 
-    // Set total equity to match Figma: $8,036
-    const totalEquity = 8036.0;
-    const totalGainLoss = holdings.reduce((sum, holding) => sum + holding.gainLoss, 0);
-
+  getMockFxRates(): FxRates {
     return {
-      totalEquity,
-      dayChange: totalGainLoss,
-      dayChangePercent: totalGainLoss / (totalEquity - totalGainLoss),
-      holdings,
+      base: 'USD',
+      rates: { USD: 1, AUD: 1.52, EUR: 0.92, GBP: 0.79, NZD: 1.66, CAD: 1.37 },
+      asOf: new Date().toISOString(),
     };
   }
 
-  getTrendingStocks(): Stock[] {
-    // Return mix of trending stocks: FIG, ABNB, BABA (duplicated for infinite scroll effect)
-    const baseStocks = [
+  /**
+   * Corporate actions for the mock stocks, dated relative to today so they
+   * always fall inside the mock ledger's history. Kept in step with
+   * mock-server/corporate-actions.json.
+   */
+  getMockCorporateActions(): CorporateAction[] {
+    const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+    return [
       {
-        symbol: 'FIG',
-        companyName: 'Figma Inc',
-        price: 131.04,
-        change: -2.85,
-        changePercent: -0.0213,
-        volume: 32100000,
-        logo: 'assets/icon/brand/figma.svg',
+        id: 'aapl-dividend-1',
+        type: 'dividend',
+        symbol: 'AAPL',
+        effectiveDate: daysAgo(140),
+        amountPerShare: 0.24,
+        description: 'Quarterly dividend of $0.24 per share',
       },
       {
-        symbol: 'ABNB',
-        companyName: 'Airbnb, Inc.',
-        price: 105.64,
-        change: 2.3,
-        changePercent: 0.0223,
-        volume: 68544000,
-        logo: 'assets/icon/brand/airbnb.svg',
+        id: 'tsla-split-1',
+        type: 'split',
+        symbol: 'TSLA',
+        effectiveDate: daysAgo(100),
+        ratio: 3,
+        description: '3-for-1 stock split',
       },
       {
-        symbol: 'BABA',
-        companyName: 'Alibaba Group',
-        price: 87.45,
-        change: -1.15,
-        changePercent: -0.013,
-        volume: 42300000,
-        logo: 'assets/icon/brand/ababa.svg',
+        id: 'aapl-dividend-2',
+        type: 'dividend',
+        symbol: 'AAPL',
+        effectiveDate: daysAgo(50),
+        amountPerShare: 0.25,
+        description: 'Quarterly dividend of $0.25 per share',
       },
     ];
+  }
 
-    // Duplicate the stocks to create more content for scrolling (5 sets for better infinite scroll effect)
-    return [...baseStocks, ...baseStocks, ...baseStocks, ...baseStocks, ...baseStocks];
+  getTrendingStocks(): Stock[] {
+    return this.getMockMovers('trending').slice(0, APP_CONSTANTS.TRENDING_LIMIT);
+  }
+
+  /** Ranks the mock stocks for a market movers list */
+  getMockMovers(category: MarketMoversCategory): Stock[] {
+    const stocks = this.getMockStocks();
+    switch (category) {
+      case 'gainers':
+        return stocks
+          .filter(stock => stock.changePercent > 0)
+          .sort((a, b) => b.changePercent - a.changePercent);
+      case 'losers':
+        return stocks
+          .filter(stock => stock.changePercent < 0)
+          .sort((a, b) => a.changePercent - b.changePercent);
+      case 'active':
+        return stocks.sort((a, b) => b.volume - a.volume);
+      case 'trending':
+        // Big moves on heavy volume
+        return stocks.sort(
+          (a, b) => Math.abs(b.changePercent) * b.volume - Math.abs(a.changePercent) * a.volume
+        );
+    }
   }
 }
@@ -0,0 +1,82 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, of, throwError } from 'rxjs';
+import {
+  CorporateAction,
+  Fundamentals,
+  FxRates,
+  HistoryRange,
+  MarketDataProvider,
+  MarketMoversCategory,
+  PriceBar,
+  Stock,
+} from '../interfaces';
+import { MockDataService } from './mock-data.service';
+
+/**
+ * Market data served from the in-app mock fixtures. Used in development and
+ * whenever no backend is configured.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MockMarketDataProvider implements MarketDataProvider {
+  private mockDataService = inject(MockDataService);
+
+  getQuote(symbol: string): Observable<Stock> {
+    const stock = this.findStock(symbol);
+    return stock ? of({ ...stock }) : throwError(() => new Error(`No quote found for ${symbol}`));
+  }
+
+  getQuotes(symbols: string[]): Observable<Stock[]> {
+    return of(
+      symbols
+        .map(symbol => this.findStock(symbol))
+        .filter((stock): stock is Stock => !!stock)
+        .map(stock => ({ ...stock }))
+    );
+  }
+
+  search(query: string): Observable<Stock[]> {
+    // The mock universe is small, so every stock is a candidate for SearchService to rank
+    return of(query.trim() ? this.mockDataService.getMockStocks() : []);
+  }
+
+  getTrending(): Observable<Stock[]> {
+    return of(this.mockDataService.getTrendingStocks());
+  }
+
+  getMovers(category: MarketMoversCategory): Observable<Stock[]> {
+    return of(this.mockDataService.getMockMovers(category));
+  }
+
+  getHistory(symbol: string, range: HistoryRange): Observable<PriceBar[]> {
+    const stock = this.findStock(symbol);
+    if (!stock) {
+      return throwError(() => new Error(`No price history found for ${symbol}`));
+    }
+    return of(this.mockDataService.getMockHistory(stock, range));
+  }
+
+  getFundamentals(symbol: string): Observable<Fundamentals> {
+    const fundamentals = this.mockDataService.getMockFundamentals(symbol);
+    return fundamentals
+      ? of({ ...fundamentals })
+      : throwError(() => new Error(`No fundamentals found for ${symbol}`));
+  }
+
+  getFxRates(): Observable<FxRates> {
+    return of(this.mockDataService.getMockFxRates());
+  }
+
+  getCorporateActions(symbols: string[]): Observable<CorporateAction[]> {
+    return of(
+      this.mockDataService
+        .getMockCorporateActions()
+        .filter(action => symbols.includes(action.symbol))
+    );
+  }
+
+  private findStock(symbol: string): Stock | undefined {
+    return this.mockDataService.getMockStocks().find(stock => stock.symbol === symbol);
+  }
+}
@@ -0,0 +1,121 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { Order, OrderRequest, OrderStatus, Stock } from '../interfaces';
+import { LocalStorageService } from './local-storage.service';
+
+// Allowed moves of the order state machine; terminal states have no way out
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  created: ['submitted', 'rejected', 'cancelled'],
+  submitted: ['partially_filled', 'filled', 'rejected', 'cancelled'],
+  partially_filled: ['partially_filled', 'filled', 'cancelled'],
+  filled: [],
+  rejected: [],
+  cancelled: [],
+};
+
+// Fill quantities within this of the order quantity complete the order
+const QUANTITY_EPSILON = 1e-8;
+
+/**
+ * Persistent record of every order and the lifecycle states it moved through.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class OrderHistoryService {
+  private localStorageService = inject(LocalStorageService);
+
+  private ordersSubject = new BehaviorSubject<Order[]>(this.localStorageService.getOrderHistory());
+  public orders$ = this.ordersSubject.asObservable();
+
+  getOrders(): Order[] {
+    return this.ordersSubject.value;
+  }
+
+  getOrder(id: string): Order | undefined {
+    return this.getOrders().find(order => order.id === id);
+  }
+
+  /**
+   * Records a new order under its client order ID, which must not have been
+   * used before.
+   */
+  createOrder(stock: Stock, request: OrderRequest): Order {
+    if (this.getOrder(request.clientOrderId)) {
+      throw new Error(`Order ${request.clientOrderId} already exists`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const order: Order = {
+      id: request.clientOrderId,
+      stock: { ...stock },
+      request,
+      status: 'created',
+      filledQuantity: 0,
+      averageFillPrice: 0,
+      transitions: [{ status: 'created', timestamp, reason: 'Order created' }],
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+
+    this.saveOrders([order, ...this.getOrders()]);
+    return order;
+  }
+
+  /**
+   * Moves an order to a new state. Throws when the state machine doesn't
+   * allow the move, e.g. cancelling an order that has already filled.
+   */
+  transition(id: string, status: OrderStatus, reason: string): Order {
+    const order = this.getOrder(id);
+    if (!order) {
+      throw new Error(`Order ${id} not found`);
+    }
+    if (!ORDER_TRANSITIONS[order.status].includes(status)) {
+      throw new Error(`Order cannot move from ${order.status} to ${status}`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const updated: Order = {
+      ...order,
+      status,
+      transitions: [...order.transitions, { status, timestamp, reason }],
+      updatedAt: timestamp,
+    };
+
+    this.replaceOrder(updated);
+    return updated;
+  }
+
+  /**
+   * Records an execution against the order, moving it to partially_filled or
+   * filled depending on how much of the order quantity is now done.
+   */
+  recordFill(id: string, quantity: number, price: number, reason: string): Order {
+    const order = this.getOrder(id);
+    if (!order) {
+      throw new Error(`Order ${id} not found`);
+    }
+
+    const filledQuantity = order.filledQuantity + quantity;
+    const averageFillPrice =
+      (order.averageFillPrice * order.filledQuantity + price * quantity) / filledQuantity;
+    const isComplete = filledQuantity >= order.request.quantity - QUANTITY_EPSILON;
+
+    this.replaceOrder({ ...order, filledQuantity, averageFillPrice });
+    return this.transition(id, isComplete ? 'filled' : 'partially_filled', reason);
+  }
+
+  isOpen(order: Order): boolean {
+    return ORDER_TRANSITIONS[order.status].length > 0;
+  }
+
+  private replaceOrder(updated: Order): void {
+    this.saveOrders(this.getOrders().map(order => (order.id === updated.id ? updated : order)));
+  }
+
+  private saveOrders(orders: Order[]): void {
+    this.localStorageService.saveOrderHistory(orders);
+    this.ordersSubject.next(orders);
+  }
+}
@@ -0,0 +1,72 @@
+import { Injectable, inject } from '@angular/core';
+import { Order, OrderRequest, Stock } from '../interfaces';
+import { ErrorHandlerService } from './error-handler.service';
+import { OrderHistoryService } from './order-history.service';
+import { PendingOrderService } from './pending-order.service';
+import { PortfolioService } from './portfolio.service';
+import { TradingCalendarService } from './trading-calendar.service';
+
+/**
+ * Entry point for placing orders. Every order is recorded in the order
+ * history and moved through its lifecycle as it is submitted and filled.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class OrderService {
+  private orderHistoryService = inject(OrderHistoryService);
+  private pendingOrderService = inject(PendingOrderService);
+  private portfolioService = inject(PortfolioService);
+  private errorHandler = inject(ErrorHandlerService);
+  private tradingCalendarService = inject(TradingCalendarService);
+
+  /**
+   * Market orders are booked immediately while the market is open; other
+   * order types, and market orders outside trading hours, go to the
+   * pending-order book. Returns the order in its latest state, or null when
+   * it was rejected. A repeated client order ID returns the existing order
+   * without trading again.
+   */
+  placeOrder(stock: Stock, request: OrderRequest): Order | null {
+    const existing = this.orderHistoryService.getOrder(request.clientOrderId);
+    if (existing) {
+      return existing;
+    }
+
+    const order = this.orderHistoryService.createOrder(stock, request);
+
+    try {
+      const isMarketOpen = this.tradingCalendarService.isMarketOpen(stock.exchange);
+
+      if (request.type === 'market' && isMarketOpen) {
+        this.orderHistoryService.transition(order.id, 'submitted', 'Submitted at market');
+        if (request.side === 'sell') {
+          this.pendingOrderService.assertSharesAvailable(stock.symbol, request.quantity);
+        }
+        this.portfolioService.executeOrder(stock, request);
+        this.orderHistoryService.recordFill(
+          order.id,
+          request.quantity,
+          stock.price,
+          `Filled at $${stock.price.toFixed(2)} (market order)`
+        );
+      } else {
+        this.orderHistoryService.transition(
+          order.id,
+          'submitted',
+          isMarketOpen ? 'Submitted to the pending-order book' : 'Queued until the market opens'
+        );
+        this.pendingOrderService.addOrder(order);
+      }
+
+      return this.orderHistoryService.getOrder(order.id) ?? null;
+    } catch (error) {
+      const current = this.orderHistoryService.getOrder(order.id);
+      if (current && this.orderHistoryService.isOpen(current)) {
+        this.orderHistoryService.transition(order.id, 'rejected', (error as Error).message);
+      }
+      this.errorHandler.handleError(error as Error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,309 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import { Order, OrderRequest, OrderStatus, PendingOrder, Stock } from '../interfaces';
+import { ErrorHandlerService } from './error-handler.service';
+import { FeeService } from './fee.service';
+import { LocalStorageService } from './local-storage.service';
+import { OrderHistoryService } from './order-history.service';
+import { PortfolioService } from './portfolio.service';
+import { QuoteStoreService } from './quote-store.service';
+import { QuoteStreamService } from './quote-stream.service';
+import { TradingCalendarService } from './trading-calendar.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share counts below this are treated as zero
+const QUANTITY_EPSILON = 1e-8;
+
+/**
+ * Pending-order book for limit, stop and stop-limit orders, and for market
+ * orders placed while the market is closed.
+ * Every incoming price update is checked against the open orders, which are
+ * filled, expired or cancelled accordingly. Nothing fills outside the
+ * regular trading session.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PendingOrderService {
+  private portfolioService = inject(PortfolioService);
+  private localStorageService = inject(LocalStorageService);
+  private orderHistoryService = inject(OrderHistoryService);
+  private errorHandler = inject(ErrorHandlerService);
+  private feeService = inject(FeeService);
+  private tradingCalendarService = inject(TradingCalendarService);
+  private quoteStore = inject(QuoteStoreService);
+  private quoteStream = inject(QuoteStreamService);
+
+  private pendingOrdersSubject = new BehaviorSubject<PendingOrder[]>([]);
+  public pendingOrders$ = this.pendingOrdersSubject.asObservable();
+
+  constructor() {
+    // Restore orders left open in a previous session
+    this.pendingOrdersSubject.next(this.localStorageService.getPendingOrders());
+    this.expireOrders();
+    this.restoreCashHolds();
+
+    // Check open orders against every fresh live price
+    this.quoteStream.watch(this.getPendingOrders().map(order => order.stock.symbol));
+    this.quoteStore.updates$.subscribe(quote => {
+      const orders = this.getPendingOrders();
+      if (quote.isStale || !orders.some(o => o.stock.symbol === quote.symbol)) {
+        return;
+      }
+      // Every open order for the symbol is checked, at the stock details any of them carries
+      const { stock } = orders.find(o => o.stock.symbol === quote.symbol)!;
+      this.processPriceUpdate(this.quoteStore.applyTo(stock));
+    });
+  }
+
+  getPendingOrders(): PendingOrder[] {
+    return this.pendingOrdersSubject.value;
+  }
+
+  /**
+   * Adds a submitted order to the book. Orders that are marketable at the
+   * current price fill straight away if the market is open.
+   */
+  addOrder(order: Order): void {
+    this.validateRequest(order.request);
+
+    // Reserve the cash a buy order could spend, or the shares a sell order
+    // could sell, so neither can be double-committed
+    if (order.request.side === 'buy') {
+      this.portfolioService.holdCash(order.id, this.getHoldAmount(order));
+    } else {
+      this.assertSharesAvailable(order.stock.symbol, order.request.quantity);
+    }
+
+    const pendingOrder: PendingOrder = {
+      id: order.id,
+      stock: { ...order.stock },
+      request: order.request,
+      createdAt: order.createdAt,
+      stopTriggered: false,
+    };
+
+    this.updateOrders([...this.getPendingOrders(), pendingOrder]);
+    this.quoteStream.watch([order.stock.symbol]);
+    this.processPriceUpdate(order.stock);
+  }
+
+  /**
+   * Throws when selling the quantity would need shares already committed to
+   * open sell orders.
+   */
+  assertSharesAvailable(symbol: string, quantity: number): void {
+    const held = this.portfolioService.getHolding(symbol)?.quantity ?? 0;
+    const reserved = this.getPendingOrders()
+      .filter(o => o.stock.symbol === symbol && o.request.side === 'sell')
+      .reduce((sum, o) => sum + o.request.quantity, 0);
+    const available = Math.max(0, held - reserved);
+
+    if (quantity > available + QUANTITY_EPSILON) {
+      throw new Error(
+        reserved > 0
+          ? `Only ${available} ${symbol} shares are free to sell; ${reserved} are in open sell orders`
+          : `Cannot sell ${quantity} shares of ${symbol}, only ${held} held`
+      );
+    }
+  }
+
+  cancelOrder(id: string): void {
+    const order = this.getPendingOrders().find(o => o.id === id);
+    if (!order) {
+      return;
+    }
+
+    this.closeOrder(id, 'cancelled', 'Cancelled by user');
+    this.errorHandler.showSuccessToast(`${order.stock.symbol} order cancelled`);
+  }
+
+  /**
+   * Checks every open order for the stock against its latest price.
+   */
+  processPriceUpdate(stock: Stock): void {
+    this.expireOrders();
+    if (!this.tradingCalendarService.isMarketOpen(stock.exchange)) {
+      return;
+    }
+
+    const orders = this.getPendingOrders().filter(o => o.stock.symbol === stock.symbol);
+    orders.forEach(order => {
+      if (this.shouldTriggerStop(order, stock.price)) {
+        order.stopTriggered = true;
+      }
+
+      if (this.shouldFill(order, stock.price)) {
+        this.fillOrder(order, stock);
+      }
+    });
+
+    // Persist any stop triggers recorded above
+    this.updateOrders([...this.getPendingOrders()]);
+  }
+
+  private fillOrder(order: PendingOrder, stock: Stock): void {
+    this.removeOrder(order.id);
+    this.portfolioService.releaseCash(order.id);
+
+    try {
+      this.portfolioService.executeOrder(stock, order.request);
+
+      const price = stock.price.toFixed(2);
+      this.orderHistoryService.recordFill(
+        order.id,
+        order.request.quantity,
+        stock.price,
+        `Filled at $${price} (${order.request.type.replace('_', ' ')} order)`
+      );
+
+      const verb = order.request.side === 'sell' ? 'sold' : 'bought';
+      this.errorHandler.showSuccessToast(`${stock.symbol} order filled: ${verb} at $${price}`);
+    } catch (error) {
+      this.recordTransition(order.id, 'rejected', (error as Error).message);
+      this.errorHandler.handleError(
+        new Error(`${stock.symbol} order rejected: ${(error as Error).message}`)
+      );
+    }
+  }
+
+  /** Cash a buy order could spend at its limit or stop price, fees included */
+  private getHoldAmount(order: PendingOrder | Order): number {
+    const { quantity, limitPrice, stopPrice } = order.request;
+    return this.feeService.estimateOrder(
+      'buy',
+      quantity,
+      limitPrice ?? stopPrice ?? order.stock.price,
+      order.stock.currency
+    ).netAmount;
+  }
+
+  /**
+   * Holds aren't saved with the cash, so restored buy orders hold theirs
+   * again. An order the cash no longer covers is cancelled.
+   */
+  private restoreCashHolds(): void {
+    this.getPendingOrders()
+      .filter(order => order.request.side === 'buy')
+      .forEach(order => {
+        try {
+          this.portfolioService.holdCash(order.id, this.getHoldAmount(order));
+        } catch (error) {
+          this.closeOrder(order.id, 'cancelled', (error as Error).message);
+          this.errorHandler.handleError(
+            new Error(`${order.stock.symbol} order cancelled: ${(error as Error).message}`),
+            false
+          );
+        }
+      });
+  }
+
+  private shouldTriggerStop(order: PendingOrder, price: number): boolean {
+    const { type, side, stopPrice } = order.request;
+    if (order.stopTriggered || stopPrice === undefined) {
+      return false;
+    }
+    if (type !== 'stop' && type !== 'stop_limit') {
+      return false;
+    }
+
+    // Buy stops trigger on the way up, sell stops on the way down
+    return side === 'buy' ? price >= stopPrice : price <= stopPrice;
+  }
+
+  private shouldFill(order: PendingOrder, price: number): boolean {
+    const { type, side, limitPrice } = order.request;
+
+    switch (type) {
+      case 'market':
+        return true;
+      case 'stop':
+        return order.stopTriggered;
+      case 'stop_limit':
+        return order.stopTriggered && this.isWithinLimit(side, price, limitPrice);
+      case 'limit':
+        return this.isWithinLimit(side, price, limitPrice);
+    }
+  }
+
+  private isWithinLimit(side: OrderRequest['side'], price: number, limitPrice?: number): boolean {
+    if (limitPrice === undefined) {
+      return false;
+    }
+    return side === 'buy' ? price <= limitPrice : price >= limitPrice;
+  }
+
+  /**
+   * Drops day orders once the session they were placed for has closed, and
+   * good-till-cancelled orders past their maximum lifetime.
+   */
+  private expireOrders(now = new Date()): void {
+    const expired = this.getPendingOrders().filter(order => this.isExpired(order, now));
+    if (expired.length === 0) {
+      return;
+    }
+
+    this.updateOrders(this.getPendingOrders().filter(order => !expired.includes(order)));
+    expired.forEach(order => {
+      this.portfolioService.releaseCash(order.id);
+      const reason =
+        order.request.timeInForce === 'day'
+          ? 'Day order expired at the end of the trading day'
+          : `Good-till-cancelled order expired after ${APP_CONSTANTS.GTC_EXPIRY_DAYS} days`;
+      this.recordTransition(order.id, 'cancelled', reason);
+      this.errorHandler.handleError(new Error(`${order.stock.symbol} order expired`), false);
+    });
+  }
+
+  private isExpired(order: PendingOrder, now: Date): boolean {
+    const createdAt = new Date(order.createdAt);
+
+    if (order.request.timeInForce === 'day') {
+      // Orders placed outside hours are good for the next session
+      const sessionClose = this.tradingCalendarService.getNextClose(
+        order.stock.exchange,
+        createdAt
+      );
+      return !!sessionClose && sessionClose <= now;
+    }
+    return now.getTime() - createdAt.getTime() > APP_CONSTANTS.GTC_EXPIRY_DAYS * DAY_MS;
+  }
+
+  private validateRequest(request: OrderRequest): void {
+    const { type, limitPrice, stopPrice, quantity } = request;
+
+    if (!(quantity > 0)) {
+      throw new Error('Order quantity must be greater than zero');
+    }
+    if ((type === 'limit' || type === 'stop_limit') && !(limitPrice && limitPrice > 0)) {
+      throw new Error('Please enter a valid limit price');
+    }
+    if ((type === 'stop' || type === 'stop_limit') && !(stopPrice && stopPrice > 0)) {
+      throw new Error('Please enter a valid stop price');
+    }
+  }
+
+  private closeOrder(id: string, status: OrderStatus, reason: string): void {
+    this.removeOrder(id);
+    this.portfolioService.releaseCash(id);
+    this.recordTransition(id, status, reason);
+  }
+
+  private recordTransition(id: string, status: OrderStatus, reason: string): void {
+    const order = this.orderHistoryService.getOrder(id);
+    if (order && this.orderHistoryService.isOpen(order)) {
+      this.orderHistoryService.transition(id, status, reason);
+    }
+  }
+
+  private removeOrder(id: string): void {
+    this.updateOrders(this.getPendingOrders().filter(o => o.id !== id));
+  }
+
+  private updateOrders(orders: PendingOrder[]): void {
+    this.localStorageService.savePendingOrders(orders);
+    this.pendingOrdersSubject.next(orders);
+  }
+}
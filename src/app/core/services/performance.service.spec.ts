@@ -0,0 +1,58 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+import { LedgerEntry } from '../interfaces';
+import { LedgerService } from './ledger.service';
+import { LocalStorageService } from './local-storage.service';
+import { provideMarketData } from './market-data.token';
+import { PerformanceService } from './performance.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('PerformanceService', () => {
+  let performanceService: PerformanceService;
+  let ledgerService: LedgerService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({ providers: [provideMarketData()] });
+    // Start from an empty ledger rather than the sample holdings
+    TestBed.inject(LocalStorageService).saveLedgerEntries([]);
+    performanceService = TestBed.inject(PerformanceService);
+    ledgerService = TestBed.inject(LedgerService);
+  });
+
+  describe('shares transferred in', () => {
+    // A symbol with no price history, so the shares keep their transfer price
+    const transferIn = (id: string, daysAgo: number): LedgerEntry => ({
+      id,
+      type: 'transfer_in',
+      symbol: 'XYZ',
+      timestamp: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+      quantity: 10,
+      price: 50,
+      amount: 0,
+      currency: 'USD',
+      description: 'Opening balance of 10 XYZ',
+    });
+
+    beforeEach(() => {
+      // The missing price history is reported, not thrown
+      spyOn(console, 'error');
+      // The second transfer lands on an account that already holds shares
+      ledgerService.append([transferIn('transfer-1', 20), transferIn('transfer-2', 10)]);
+    });
+
+    it('count as a flow on the days they arrive', async () => {
+      const history = await firstValueFrom(performanceService.getPerformance('1M'));
+      const flows = history.snapshots.map(snapshot => snapshot.netDeposits);
+
+      expect(flows.filter(flow => Math.abs(flow - 500) < 1e-8).length).toBe(2);
+    });
+
+    it("aren't counted as a return", async () => {
+      const history = await firstValueFrom(performanceService.getPerformance('1M'));
+
+      expect(history.timeWeightedReturn).toBeCloseTo(0, 8);
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Observable,
+  catchError,
+  combineLatest,
+  distinctUntilChanged,
+  filter,
+  forkJoin,
+  map,
+  of,
+  switchMap,
+} from 'rxjs';
+import {
+  HistoryRange,
+  LedgerEntry,
+  PerformanceHistory,
+  PerformancePeriod,
+  Portfolio,
+  PortfolioSnapshot,
+  Position,
+  PriceBar,
+} from '../interfaces';
+import { ErrorHandlerService } from './error-handler.service';
+import { FxRateService } from './fx-rate.service';
+import { LedgerService } from './ledger.service';
+import { MARKET_DATA_PROVIDER } from './market-data.token';
+import { PortfolioService } from './portfolio.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days covered by each period, and the price history range with daily bars that covers it
+const PERIODS: Record<PerformancePeriod, { days: number | null; range: HistoryRange }> = {
+  '1W': { days: 7, range: '1M' },
+  '1M': { days: 30, range: '1M' },
+  '3M': { days: 91, range: '3M' },
+  '1Y': { days: 365, range: '1Y' },
+  ALL: { days: null, range: 'ALL' },
+};
+
+// Share counts below this are treated as zero
+const QUANTITY_EPSILON = 1e-8;
+
+/**
+ * Rebuilds daily portfolio value snapshots. The shares held each day come from
+ * replaying the ledger up to the end of that day, so opening balances and
+ * corporate actions count, and are valued at that day's closing price. Cash is
+ * replayed backwards from the current balance. Prices are converted into the base
+ * currency at today's rates, matching the current portfolio totals.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PerformanceService {
+  private portfolioService = inject(PortfolioService);
+  private ledgerService = inject(LedgerService);
+  private fxRateService = inject(FxRateService);
+  private marketData = inject(MARKET_DATA_PROVIDER);
+  private errorHandler = inject(ErrorHandlerService);
+
+  /**
+   * Snapshots and return for the period, recalculated as prices and the
+   * portfolio change. Price history is only refetched when the set of
+   * symbols involved changes.
+   */
+  getPerformance(period: PerformancePeriod): Observable<PerformanceHistory> {
+    const portfolio$ = this.portfolioService.portfolio$.pipe(
+      filter((portfolio): portfolio is Portfolio => portfolio !== null)
+    );
+    const entries$ = this.ledgerService.entries$;
+
+    const prices$ = entries$.pipe(
+      map(entries => this.getSymbols(entries).join(',')),
+      distinctUntilChanged(),
+      switchMap(symbols => this.loadPrices(symbols ? symbols.split(',') : [], period))
+    );
+
+    return combineLatest([prices$, portfolio$, entries$]).pipe(
+      map(([prices, portfolio, entries]) => this.buildHistory(period, portfolio, entries, prices))
+    );
+  }
+
+  private buildHistory(
+    period: PerformancePeriod,
+    portfolio: Portfolio,
+    entries: LedgerEntry[],
+    prices: Record<string, PriceBar[]>
+  ): PerformanceHistory {
+    const now = Date.now();
+    const sorted = [...entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const days = this.getDays(period, portfolio, sorted, prices, now);
+
+    // Positions only change with new entries, so each count of entries is replayed once
+    const positionsByCount = new Map<number, Position[]>();
+    const getPositions = (at: number) => {
+      const count = sorted.filter(entry => new Date(entry.timestamp).getTime() <= at).length;
+      let positions = positionsByCount.get(count);
+      if (!positions) {
+        positions = this.ledgerService
+          .buildPositions(sorted.slice(0, count), this.ledgerService.getCostBasisMethod())
+          .filter(position => position.quantity > QUANTITY_EPSILON);
+        positionsByCount.set(count, positions);
+      }
+      return positions;
+    };
+
+    const snapshots = days.map((dayEnd, i) => {
+      const end = Math.min(dayEnd, now);
+      const start = days[i - 1] ?? dayEnd - DAY_MS;
+
+      // Undo every cash movement made after the end of the day
+      const cash = portfolio.cash.movements
+        .filter(movement => new Date(movement.timestamp).getTime() > end)
+        .reduce((balance, movement) => balance - movement.amount, portfolio.cash.availableCash);
+
+      const isInDay = (timestamp: string) => {
+        const time = new Date(timestamp).getTime();
+        return time > start && time <= end;
+      };
+
+      // Shares transferred in or out are flows like cash, valued at the day's price
+      const netTransfers = sorted
+        .filter(entry => entry.type === 'transfer_in' || entry.type === 'transfer_out')
+        .filter(entry => isInDay(entry.timestamp))
+        .reduce((sum, entry) => {
+          const value = this.fxRateService.convert(
+            entry.quantity * this.getPrice(entry.symbol, end, now, portfolio, prices, sorted),
+            entry.currency,
+            portfolio.baseCurrency
+          );
+          return sum + (entry.type === 'transfer_in' ? value : -value);
+        }, 0);
+
+      const netDeposits =
+        portfolio.cash.movements
+          .filter(movement => movement.type === 'deposit' || movement.type === 'withdrawal')
+          .filter(movement => isInDay(movement.timestamp))
+          .reduce((sum, movement) => sum + movement.amount, 0) + netTransfers;
+
+      const holdingsValue = getPositions(end).reduce(
+        (sum, position) =>
+          sum +
+          this.fxRateService.convert(
+            position.quantity * this.getPrice(position.symbol, end, now, portfolio, prices, sorted),
+            position.currency,
+            portfolio.baseCurrency
+          ),
+        0
+      );
+
+      const snapshot: PortfolioSnapshot = {
+        date: this.toDateKey(new Date(end)),
+        value: holdingsValue + cash,
+        holdingsValue,
+        cash,
+        netDeposits,
+      };
+      return snapshot;
+    });
+
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    return {
+      period,
+      snapshots,
+      valueChange: first && last ? last.value - first.value : 0,
+      timeWeightedReturn: this.calculateTimeWeightedReturn(snapshots),
+    };
+  }
+
+  /**
+   * Chains daily returns, treating each day's deposits, withdrawals and share
+   * transfers as arriving at the start of the day so they don't count as growth.
+   */
+  private calculateTimeWeightedReturn(snapshots: PortfolioSnapshot[]): number {
+    let growth = 1;
+    for (let i = 1; i < snapshots.length; i++) {
+      const previous = snapshots[i - 1]!;
+      const current = snapshots[i]!;
+      const startValue = previous.value + current.netDeposits;
+      if (startValue > 0) {
+        growth *= current.value / startValue;
+      }
+    }
+    return growth - 1;
+  }
+
+  /** End-of-day timestamps for every day in the period, the last one being today */
+  private getDays(
+    period: PerformancePeriod,
+    portfolio: Portfolio,
+    entries: LedgerEntry[],
+    prices: Record<string, PriceBar[]>,
+    now: number
+  ): number[] {
+    let days = PERIODS[period].days;
+    if (days === null) {
+      // All time starts at the earliest price, ledger entry or cash movement we know of
+      const timestamps = [
+        ...Object.values(prices).flatMap(bars => (bars[0] ? [bars[0].timestamp] : [])),
+        ...portfolio.cash.movements.map(movement => movement.timestamp),
+        ...entries.map(entry => entry.timestamp),
+      ].map(timestamp => new Date(timestamp).getTime());
+      const earliest = Math.min(now, ...timestamps);
+      days = Math.max(1, Math.ceil((now - earliest) / DAY_MS));
+    }
+
+    const today = new Date(now);
+    const endOfToday = new Date(
+      today.getFullYear(),
+      today.getMonth(),
+      today.getDate() + 1
+    ).getTime();
+
+    const result: number[] = [];
+    for (let offset = days; offset >= 0; offset--) {
+      const dayEnd = new Date(endOfToday);
+      dayEnd.setDate(dayEnd.getDate() - offset);
+      result.push(dayEnd.getTime() - 1);
+    }
+    return result;
+  }
+
+  /** Closing price at the given time, or the live price for today */
+  private getPrice(
+    symbol: string,
+    at: number,
+    now: number,
+    portfolio: Portfolio,
+    prices: Record<string, PriceBar[]>,
+    entries: LedgerEntry[]
+  ): number {
+    const holding = portfolio.holdings.find(h => h.stock.symbol === symbol);
+    if (holding && at >= now) {
+      return holding.stock.price;
+    }
+
+    const bars = prices[symbol] ?? [];
+    const bar = [...bars].reverse().find(b => new Date(b.timestamp).getTime() <= at) ?? bars[0];
+    if (bar) {
+      return bar.close;
+    }
+
+    // No history to go on, so fall back to the last price the shares changed hands at
+    const trade = [...entries]
+      .reverse()
+      .find(
+        entry =>
+          entry.symbol === symbol &&
+          (entry.type === 'buy' || entry.type === 'sell' || entry.type === 'transfer_in')
+      );
+    return holding?.stock.price ?? trade?.price ?? 0;
+  }
+
+  /** Every symbol shares have been held under, including closed and renamed positions */
+  private getSymbols(entries: LedgerEntry[]): string[] {
+    return [...new Set(entries.map(entry => entry.symbol))].sort();
+  }
+
+  private loadPrices(
+    symbols: string[],
+    period: PerformancePeriod
+  ): Observable<Record<string, PriceBar[]>> {
+    if (symbols.length === 0) {
+      return of({});
+    }
+
+    const range = PERIODS[period].range;
+    return forkJoin(
+      symbols.map(symbol =>
+        this.marketData.getHistory(symbol, range).pipe(
+          // One missing history shouldn't blank the chart; that symbol is valued at its last price
+          catchError(error => {
+            this.errorHandler.handleError(error as Error, false);
+            return of([] as PriceBar[]);
+          }),
+          map(bars => [symbol, bars] as const)
+        )
+      )
+    ).pipe(map(entries => Object.fromEntries(entries)));
+  }
+
+  private toDateKey(date: Date): string {
+    const month = `${date.getMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getDate()}`.padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
@@ -0,0 +1,150 @@
+import { TestBed } from '@angular/core/testing';
+import { LedgerEntry, Position, Stock } from '../interfaces';
+import { LedgerService } from './ledger.service';
+import { PnlService } from './pnl.service';
+
+describe('PnlService', () => {
+  let pnlService: PnlService;
+  let ledgerService: LedgerService;
+
+  const stock: Stock = {
+    symbol: 'AAPL',
+    companyName: 'Apple Inc.',
+    price: 160,
+    change: 10,
+    changePercent: 10 / 150,
+    volume: 1000,
+    currency: 'USD',
+  };
+
+  const entry = (
+    id: string,
+    type: LedgerEntry['type'],
+    fields: Partial<LedgerEntry> = {}
+  ): LedgerEntry => ({
+    id,
+    type,
+    symbol: 'AAPL',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    quantity: 0,
+    price: 0,
+    amount: 0,
+    currency: 'USD',
+    description: id,
+    ...fields,
+  });
+
+  const positionOf = (entries: LedgerEntry[], method: 'fifo' | 'average' = 'fifo'): Position =>
+    ledgerService.buildPositions(entries, method)[0]!;
+
+  // Two shares at $100 plus a $1 fee, then two more at $150
+  const buyTwice = [
+    entry('buy-1', 'buy', { quantity: 2, price: 100 }),
+    entry('fee-1', 'fee', { amount: 1, relatedEntryId: 'buy-1' }),
+    entry('buy-2', 'buy', { quantity: 2, price: 150, timestamp: '2025-02-01T00:00:00.000Z' }),
+  ];
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    pnlService = TestBed.inject(PnlService);
+    ledgerService = TestBed.inject(LedgerService);
+  });
+
+  describe('buying more of a stock already held', () => {
+    it('adds the new shares and their cost to the existing holding', () => {
+      const holding = pnlService.valueHolding(positionOf(buyTwice), stock, 1);
+
+      expect(holding.quantity).toBe(4);
+      expect(holding.costBasis).toBeCloseTo(501, 8);
+      expect(holding.averagePrice).toBeCloseTo(125.25, 8);
+      expect(holding.totalValue).toBeCloseTo(640, 8);
+    });
+
+    it('measures unrealized P&L against the combined cost, as a decimal', () => {
+      const holding = pnlService.valueHolding(positionOf(buyTwice), stock, 1);
+
+      expect(holding.gainLoss).toBeCloseTo(139, 8);
+      expect(holding.gainLossPercent).toBeCloseTo(139 / 501, 8);
+    });
+
+    it('measures the day change of every share from the previous close', () => {
+      const holding = pnlService.valueHolding(positionOf(buyTwice), stock, 1);
+
+      expect(holding.dayChange).toBeCloseTo(40, 8);
+      expect(holding.dayChangePercent).toBeCloseTo(40 / 600, 8);
+    });
+
+    it('raises the portfolio equity by the value of the new shares', () => {
+      const before = positionOf(buyTwice.slice(0, 2));
+      const after = positionOf(buyTwice);
+      const equityOf = (position: Position) =>
+        pnlService.summarize([pnlService.valueHolding(position, stock, 1)], [position], () => 1)
+          .totalEquity;
+
+      expect(equityOf(after) - equityOf(before)).toBeCloseTo(2 * stock.price, 8);
+    });
+  });
+
+  describe('realized P&L', () => {
+    const sellThree = [
+      ...buyTwice,
+      entry('sell-1', 'sell', { quantity: 3, price: 160, timestamp: '2025-03-01T00:00:00.000Z' }),
+      entry('fee-2', 'fee', {
+        amount: 2,
+        relatedEntryId: 'sell-1',
+        timestamp: '2025-03-01T00:00:00.000Z',
+      }),
+    ];
+
+    it('relieves the oldest shares first under FIFO, net of the sell fee', () => {
+      const position = positionOf(sellThree, 'fifo');
+
+      // 480 proceeds - (201 + 150) cost - 2 fee
+      expect(position.realizedGainLoss).toBeCloseTo(127, 8);
+      expect(pnlService.valueHolding(position, stock, 1).gainLoss).toBeCloseTo(10, 8);
+    });
+
+    it('relieves shares at the average cost under average cost', () => {
+      const position = positionOf(sellThree, 'average');
+
+      // 480 proceeds - 3 * 125.25 cost - 2 fee
+      expect(position.realizedGainLoss).toBeCloseTo(102.25, 8);
+      expect(pnlService.valueHolding(position, stock, 1).averagePrice).toBeCloseTo(125.25, 8);
+    });
+
+    it('keeps the realized P&L of a closed position in the portfolio totals', () => {
+      const closed = positionOf([
+        ...buyTwice,
+        entry('sell-1', 'sell', { quantity: 4, price: 160, timestamp: '2025-03-01T00:00:00.000Z' }),
+      ]);
+
+      const totals = pnlService.summarize([], [closed], () => 1);
+
+      expect(totals.totalEquity).toBe(0);
+      expect(totals.realizedGainLoss).toBeCloseTo(640 - 501, 8);
+    });
+  });
+
+  describe('portfolio totals', () => {
+    it('converts each holding into the base currency before summing', () => {
+      const position = positionOf(buyTwice);
+      const holding = pnlService.valueHolding(position, stock, 1.5);
+
+      const totals = pnlService.summarize([holding], [position], () => 1.5);
+
+      expect(totals.totalEquity).toBeCloseTo(960, 8);
+      expect(totals.unrealizedGainLoss).toBeCloseTo(208.5, 8);
+      expect(totals.unrealizedGainLossPercent).toBeCloseTo(139 / 501, 8);
+      expect(totals.dayChange).toBeCloseTo(60, 8);
+      expect(totals.dayChangePercent).toBeCloseTo(40 / 600, 8);
+    });
+
+    it('reports zero percents for an empty portfolio', () => {
+      const totals = pnlService.summarize([], [], () => 1);
+
+      expect(totals.dayChangePercent).toBe(0);
+      expect(totals.unrealizedGainLossPercent).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { Injectable } from '@angular/core';
+import { PortfolioPnl, Position, Stock, StockHolding } from '../interfaces';
+
+/**
+ * Works out profit and loss for holdings and the portfolio.
+ *
+ * - Unrealized: market value minus the cost basis of the shares still held.
+ * - Realized: what sales locked in, net of fees, from the ledger's disposals.
+ * - Day change: market value now minus market value at the previous close.
+ *
+ * Holding amounts are in the stock's currency; portfolio totals are in the
+ * base currency. Every percent is a decimal (0.05 for 5%).
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PnlService {
+  /**
+   * Values an open position at a quote. `fxRate` converts the stock's
+   * currency into the base currency.
+   */
+  valueHolding(position: Position, stock: Stock, fxRate: number): StockHolding {
+    const { quantity, costBasis } = position;
+    const totalValue = stock.price * quantity;
+    const gainLoss = totalValue - costBasis;
+    const previousClose = stock.price - stock.change;
+    const dayChange = stock.change * quantity;
+
+    return {
+      stock,
+      quantity,
+      averagePrice: quantity > 0 ? costBasis / quantity : 0,
+      costBasis,
+      totalValue,
+      fxRate,
+      convertedValue: totalValue * fxRate,
+      gainLoss,
+      gainLossPercent: this.ratio(gainLoss, costBasis),
+      dayChange,
+      dayChangePercent: this.ratio(dayChange, previousClose * quantity),
+      realizedGainLoss: position.realizedGainLoss,
+    };
+  }
+
+  /**
+   * Portfolio totals in the base currency. Realized gains cover every
+   * position, including closed ones, each converted by `fxRateOf` its currency.
+   */
+  summarize(
+    holdings: StockHolding[],
+    positions: Position[],
+    fxRateOf: (currency: string) => number
+  ): PortfolioPnl {
+    const sum = (amountOf: (holding: StockHolding) => number) =>
+      holdings.reduce((total, holding) => total + amountOf(holding) * holding.fxRate, 0);
+
+    const totalEquity = sum(holding => holding.totalValue);
+    const costBasis = sum(holding => holding.costBasis);
+    const dayChange = sum(holding => holding.dayChange);
+    const unrealizedGainLoss = totalEquity - costBasis;
+
+    return {
+      totalEquity,
+      dayChange,
+      // Measured against the value of today's holdings at the previous close
+      dayChangePercent: this.ratio(dayChange, totalEquity - dayChange),
+      unrealizedGainLoss,
+      unrealizedGainLossPercent: this.ratio(unrealizedGainLoss, costBasis),
+      realizedGainLoss: positions.reduce(
+        (total, position) => total + position.realizedGainLoss * fxRateOf(position.currency),
+        0
+      ),
+    };
+  }
+
+  private ratio(amount: number, base: number): number {
+    return base > 0 ? amount / base : 0;
+  }
+}
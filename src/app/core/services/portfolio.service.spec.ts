@@ -0,0 +1,67 @@
+import { TestBed } from '@angular/core/testing';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import { Stock } from '../interfaces';
+import { FeeService } from './fee.service';
+import { LocalStorageService } from './local-storage.service';
+import { provideMarketData } from './market-data.token';
+import { PortfolioService } from './portfolio.service';
+
+describe('PortfolioService', () => {
+  let portfolioService: PortfolioService;
+  let feeService: FeeService;
+
+  const stock: Stock = {
+    symbol: 'XYZ',
+    companyName: 'XYZ Corp.',
+    price: 100,
+    change: 0,
+    changePercent: 0,
+    volume: 1000,
+    currency: 'USD',
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({ providers: [provideMarketData()] });
+    // Start from an empty ledger rather than the sample holdings
+    TestBed.inject(LocalStorageService).saveLedgerEntries([]);
+    portfolioService = TestBed.inject(PortfolioService);
+    feeService = TestBed.inject(FeeService);
+  });
+
+  describe('buying more of a stock already held', () => {
+    // Two shares at $100, then three more once the price has risen to $120
+    const buyTwice = () => {
+      expect(portfolioService.addStock(stock, 2)).toBeTrue();
+      expect(portfolioService.addStock({ ...stock, price: 120 }, 3)).toBeTrue();
+    };
+
+    it('adds the new shares and their cost, fees included, to the existing holding', () => {
+      buyTwice();
+      const first = feeService.estimateOrder('buy', 2, 100);
+      const second = feeService.estimateOrder('buy', 3, 120);
+
+      const holdings = portfolioService.getCurrentPortfolio()!.holdings;
+      expect(holdings.length).toBe(1);
+      expect(holdings[0]!.quantity).toBeCloseTo(5, 8);
+      expect(holdings[0]!.costBasis).toBeCloseTo(first.netAmount + second.netAmount, 8);
+    });
+
+    it('pays for both purchases out of cash', () => {
+      buyTwice();
+      const first = feeService.estimateOrder('buy', 2, 100);
+      const second = feeService.estimateOrder('buy', 3, 120);
+
+      expect(portfolioService.getCurrentPortfolio()!.cash.availableCash).toBeCloseTo(
+        APP_CONSTANTS.INITIAL_DEPOSIT - first.netAmount - second.netAmount,
+        8
+      );
+    });
+
+    it('values every share at the latest price', () => {
+      buyTwice();
+
+      expect(portfolioService.getCurrentPortfolio()!.totalEquity).toBeCloseTo(600, 8);
+    });
+  });
+});
@@ -1,100 +1,607 @@
 import { Injectable, inject } from '@angular/core';
-import { BehaviorSubject } from 'rxjs';
-import { Portfolio, Stock, StockHolding } from '../interfaces';
+import { BehaviorSubject, combineLatest } from 'rxjs';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import {
+  CashMovementType,
+  ImportRow,
+  LedgerEntry,
+  OrderRequest,
+  Portfolio,
+  Position,
+  QuoteUpdate,
+  Stock,
+  StockHolding,
+} from '../interfaces';
 import { ErrorHandlerService } from './error-handler.service';
-import { MockDataService } from './mock-data.service';
+import { FeeService } from './fee.service';
+import { FxRateService } from './fx-rate.service';
+import { LedgerService } from './ledger.service';
+import { LocalStorageService } from './local-storage.service';
+import { MARKET_DATA_PROVIDER } from './market-data.token';
+import { PnlService } from './pnl.service';
+import { QuoteStoreService } from './quote-store.service';
+import { QuoteStreamService } from './quote-stream.service';
+
+// Remaining share counts below this are treated as a fully closed position
+const QUANTITY_EPSILON = 1e-8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 @Injectable({
   providedIn: 'root',
 })
 export class PortfolioService {
-  private mockDataService = inject(MockDataService);
+  private localStorageService = inject(LocalStorageService);
   private errorHandler = inject(ErrorHandlerService);
+  private feeService = inject(FeeService);
+  private fxRateService = inject(FxRateService);
+  private ledgerService = inject(LedgerService);
+  private marketData = inject(MARKET_DATA_PROVIDER);
+  private pnlService = inject(PnlService);
+  private quoteStore = inject(QuoteStoreService);
+  private quoteStream = inject(QuoteStreamService);
 
   private portfolioSubject = new BehaviorSubject<Portfolio | null>(null);
   public portfolio$ = this.portfolioSubject.asObservable();
 
+  // Client order IDs already booked, so a resubmitted order can't trade twice
+  private executedOrderIds = new Set<string>();
+
+  // Positions rebuilt from the ledger, and the details of every stock traded or
+  // quoted by the provider; prices always come from the quote store
+  private positions: Position[] = [];
+  private stocks = new Map<string, Stock>();
+
   constructor() {
-    // Initialize with mock portfolio
+    // Start from the initial deposit, then value the ledger's holdings at the latest quotes
     try {
-      const portfolio = this.mockDataService.getMockPortfolio();
+      const portfolio = this.createPortfolio();
+      // Cash saved in an earlier session replaces the initial deposit
+      const saved = this.localStorageService.getCash();
+      if (saved) {
+        portfolio.baseCurrency = saved.baseCurrency;
+        portfolio.cash = saved.cash;
+      }
+      this.settleCash(portfolio);
       this.portfolioSubject.next(portfolio);
     } catch (error) {
       this.errorHandler.handleError(error as Error);
     }
+
+    // Holdings are rebuilt whenever the ledger or the cost basis method changes
+    combineLatest([this.ledgerService.entries$, this.ledgerService.costBasisMethod$]).subscribe(
+      ([entries, method]) => {
+        this.positions = this.ledgerService.buildPositions(entries, method);
+        const portfolio = this.getCurrentPortfolio();
+        if (portfolio) {
+          this.revalue(portfolio.baseCurrency);
+        }
+      }
+    );
+    this.refreshQuotes();
+
+    // Revalue holdings on every live price change and stream prices for new ones
+    this.quoteStore.updates$.subscribe(quote => this.applyQuotes([quote]));
+    this.portfolio$.subscribe(portfolio =>
+      this.quoteStream.watch(portfolio?.holdings.map(h => h.stock.symbol) ?? [])
+    );
+
+    // Keep totals and cash in the chosen base currency at the latest rates
+    combineLatest([this.fxRateService.baseCurrency$, this.fxRateService.rates$]).subscribe(
+      ([currency, rates]) => {
+        // A base currency restored from storage waits for rates that can convert into it
+        if (rates.rates[currency]) {
+          this.revalue(currency);
+        }
+      }
+    );
+  }
+
+  /**
+   * Fetches quotes for every holding from the market data provider into the
+   * quote store, which revalues the portfolio.
+   */
+  refreshQuotes(): void {
+    const symbols = this.getCurrentPortfolio()?.holdings.map(h => h.stock.symbol) ?? [];
+    if (symbols.length === 0) {
+      return;
+    }
+
+    this.marketData.getQuotes(symbols).subscribe({
+      next: quotes => {
+        quotes.forEach(stock => this.stocks.set(stock.symbol, stock));
+        this.quoteStore.update(quotes);
+      },
+      error: error => this.errorHandler.handleError(error as Error, false),
+    });
+  }
+
+  /**
+   * Revalues holdings at the given quotes and recalculates the totals.
+   */
+  applyQuotes(quotes: QuoteUpdate[]): void {
+    const currentPortfolio = this.getCurrentPortfolio();
+    if (!currentPortfolio) {
+      return;
+    }
+
+    let isChanged = false;
+    quotes.forEach(quote => {
+      const stock = this.stocks.get(quote.symbol);
+      if (stock) {
+        this.stocks.set(quote.symbol, { ...stock, ...quote });
+      }
+      if (currentPortfolio.holdings.some(h => h.stock.symbol === quote.symbol)) {
+        isChanged = true;
+      }
+    });
+
+    if (isChanged) {
+      this.recalculateTotals(currentPortfolio);
+      this.portfolioSubject.next({ ...currentPortfolio });
+    }
   }
 
   getCurrentPortfolio(): Portfolio | null {
     return this.portfolioSubject.value;
   }
 
-  addStock(stock: Stock, quantity: number): void {
+  getHolding(symbol: string): StockHolding | undefined {
+    return this.getCurrentPortfolio()?.holdings.find(h => h.stock.symbol === symbol);
+  }
+
+  /**
+   * Cash that can be spent on new buys: available cash minus cash held for
+   * pending orders.
+   */
+  getBuyingPower(): number {
+    const cash = this.getCurrentPortfolio()?.cash;
+    return cash ? Math.max(0, cash.availableCash - cash.heldCash) : 0;
+  }
+
+  /**
+   * Reserves cash for a pending buy order. Throws when buying power is short.
+   */
+  holdCash(orderId: string, amount: number): void {
+    const currentPortfolio = this.getCurrentPortfolio();
+    if (!currentPortfolio) {
+      throw new Error('Portfolio not initialized');
+    }
+
+    this.assertBuyingPower(amount);
+
+    currentPortfolio.cash.holds = [...currentPortfolio.cash.holds, { orderId, amount }];
+    currentPortfolio.cash.heldCash += amount;
+    this.portfolioSubject.next({ ...currentPortfolio });
+  }
+
+  /**
+   * Frees the cash held for an order once it fills, expires or is cancelled.
+   */
+  releaseCash(orderId: string): void {
+    const currentPortfolio = this.getCurrentPortfolio();
+    const hold = currentPortfolio?.cash.holds.find(h => h.orderId === orderId);
+    if (!currentPortfolio || !hold) {
+      return;
+    }
+
+    currentPortfolio.cash.holds = currentPortfolio.cash.holds.filter(h => h !== hold);
+    currentPortfolio.cash.heldCash = Math.max(0, currentPortfolio.cash.heldCash - hold.amount);
+    this.portfolioSubject.next({ ...currentPortfolio });
+  }
+
+  /**
+   * Books an order on the buy or sell path based on its side.
+   * Throws when the trade is not allowed, so callers can record why.
+   * An order ID that has already been booked is ignored.
+   */
+  executeOrder(stock: Stock, order: OrderRequest): void {
+    if (this.executedOrderIds.has(order.clientOrderId)) {
+      return;
+    }
+
+    if (order.side === 'sell') {
+      this.bookSale(stock, order.quantity);
+    } else {
+      this.bookPurchase(stock, order.quantity);
+    }
+    this.executedOrderIds.add(order.clientOrderId);
+  }
+
+  addStock(stock: Stock, quantity: number): boolean {
     try {
-      // Validate inputs
-      if (!stock || !stock.symbol) {
-        throw new Error('Invalid stock data');
-      }
+      this.bookPurchase(stock, quantity);
+      return true;
+    } catch (error) {
+      this.errorHandler.handleError(error as Error);
+      return false;
+    }
+  }
 
-      const currentPortfolio = this.getCurrentPortfolio();
-      if (!currentPortfolio) {
-        throw new Error('Portfolio not initialized');
-      }
+  sellStock(stock: Stock, quantity: number): boolean {
+    try {
+      this.bookSale(stock, quantity);
+      return true;
+    } catch (error) {
+      this.errorHandler.handleError(error as Error);
+      return false;
+    }
+  }
 
-      // Calculate and validate the purchase value
-      const purchaseValue = stock.price * quantity;
-      if (purchaseValue < 0.01 || purchaseValue > 1000000) {
-        throw new Error('Purchase amount must be between $0.01 and $1,000,000');
-      }
+  /**
+   * Credits cash paid out on shares held, such as a dividend, converted into
+   * the base currency. Like sale proceeds, it settles later.
+   */
+  creditCash(type: CashMovementType, amount: number, currency: string, description: string): void {
+    const currentPortfolio = this.getCurrentPortfolio();
+    if (!currentPortfolio) {
+      throw new Error('Portfolio not initialized');
+    }
+    if (!(amount > 0)) {
+      return;
+    }
 
-      // Check if stock already exists in holdings
-      const existingHolding = currentPortfolio.holdings.find(h => h.stock.symbol === stock.symbol);
-
-      if (existingHolding) {
-        // Update existing holding
-        const oldValue = existingHolding.quantity * existingHolding.averagePrice;
-        const newValue = oldValue + purchaseValue;
-        const newTotalShares = existingHolding.quantity + quantity;
-        const newAveragePrice = newValue / newTotalShares;
-
-        existingHolding.quantity = newTotalShares;
-        existingHolding.averagePrice = newAveragePrice;
-        existingHolding.totalValue = stock.price * newTotalShares;
-        existingHolding.gainLoss = (stock.price - newAveragePrice) * newTotalShares;
-        existingHolding.gainLossPercent = ((stock.price - newAveragePrice) / newAveragePrice) * 100;
-      } else {
-        // Create new holding
-        const newHolding: StockHolding = {
-          stock: stock,
-          quantity: quantity,
-          averagePrice: stock.price,
-          totalValue: purchaseValue,
-          gainLoss: purchaseValue * 0.0001, // Small positive gain (0.01%)
-          gainLossPercent: 0.01, // Start with 0.01% gain
-        };
-
-        currentPortfolio.holdings.push(newHolding);
-      }
+    this.settleCash(currentPortfolio);
+    this.recordCashMovement(
+      currentPortfolio,
+      type,
+      this.fxRateService.convert(amount, currency, currentPortfolio.baseCurrency),
+      description
+    );
+    this.portfolioSubject.next({ ...currentPortfolio });
+  }
+
+  /**
+   * Records shares moved over from another broker as opening balances. No
+   * cash changes hands; the shares keep their original cost and date.
+   */
+  importOpeningBalances(rows: ImportRow[]): void {
+    if (rows.length === 0) {
+      throw new Error('There are no holdings to import');
+    }
+    if (rows.some(row => row.errors.length > 0)) {
+      throw new Error('Fix the rows with errors before importing');
+    }
+
+    this.ledgerService.append(
+      rows.map(row => ({
+        id: row.id,
+        type: 'transfer_in',
+        symbol: row.symbol,
+        timestamp: row.acquiredAt,
+        quantity: row.quantity,
+        price: row.costPerShare,
+        amount: 0,
+        currency: row.currency,
+        description: `Opening balance of ${row.quantity} ${row.symbol}`,
+      }))
+    );
+    // Stocks new to the portfolio are valued at cost until quoted
+    this.refreshQuotes();
+  }
+
+  private bookPurchase(stock: Stock, quantity: number): void {
+    // Validate inputs
+    if (!stock || !stock.symbol) {
+      throw new Error('Invalid stock data');
+    }
+
+    const currentPortfolio = this.getCurrentPortfolio();
+    if (!currentPortfolio) {
+      throw new Error('Portfolio not initialized');
+    }
+
+    // Calculate and validate the purchase value
+    const purchaseValue = stock.price * quantity;
+    if (purchaseValue < 0.01 || purchaseValue > 1000000) {
+      throw new Error('Purchase amount must be between $0.01 and $1,000,000');
+    }
+
+    // Fees are paid on top of the purchase and form part of the cost basis. The
+    // estimate is in the base currency; the holding is kept in the stock's currency.
+    const currency = this.fxRateService.currencyOf(stock);
+    const { grossAmount, totalFees, netAmount } = this.feeService.estimateOrder(
+      'buy',
+      quantity,
+      stock.price,
+      currency
+    );
+    const localFees = this.fxRateService.convert(
+      totalFees,
+      currentPortfolio.baseCurrency,
+      currency
+    );
 
-      // Add the new purchase value to total equity
-      currentPortfolio.totalEquity += purchaseValue;
+    this.settleCash(currentPortfolio);
+    this.assertBuyingPower(netAmount);
 
-      // Recalculate total day change based on all holdings
-      currentPortfolio.dayChange = currentPortfolio.holdings.reduce((sum, holding) => {
-        const dayChangeForHolding = holding.stock.change * holding.quantity;
-        return sum + dayChangeForHolding;
-      }, 0);
+    // Pay for the shares, drawing on settled cash first
+    this.recordCashMovement(
+      currentPortfolio,
+      'buy',
+      -grossAmount,
+      `Bought ${quantity} ${stock.symbol}`
+    );
+    this.recordCashMovement(currentPortfolio, 'fee', -totalFees, `Fees on ${stock.symbol} buy`);
+
+    // Recording the trade rebuilds the holdings and emits the portfolio
+    this.stocks.set(stock.symbol, stock);
+    this.recordTrade('buy', stock, quantity, localFees);
+  }
+
+  private bookSale(stock: Stock, quantity: number): void {
+    // Validate inputs
+    if (!stock || !stock.symbol) {
+      throw new Error('Invalid stock data');
+    }
+
+    const currentPortfolio = this.getCurrentPortfolio();
+    if (!currentPortfolio) {
+      throw new Error('Portfolio not initialized');
+    }
+
+    if (!(quantity > 0)) {
+      throw new Error('Sell quantity must be greater than zero');
+    }
 
-      // Update day change percentage
-      const portfolioWithoutChange = currentPortfolio.totalEquity - currentPortfolio.dayChange;
-      currentPortfolio.dayChangePercent =
-        portfolioWithoutChange !== 0
-          ? (currentPortfolio.dayChange / portfolioWithoutChange) * 100
-          : 0;
+    const existingHolding = this.getHolding(stock.symbol);
+    if (!existingHolding) {
+      throw new Error(`You don't hold any ${stock.symbol} shares to sell`);
+    }
+
+    // Never sell more shares than are held
+    if (quantity > existingHolding.quantity + QUANTITY_EPSILON) {
+      throw new Error(
+        `Cannot sell ${quantity} shares of ${stock.symbol}, only ${existingHolding.quantity} held`
+      );
+    }
+
+    const saleValue = stock.price * quantity;
+    if (saleValue < 0.01) {
+      throw new Error('Sale amount must be at least $0.01');
+    }
+
+    const currency = this.fxRateService.currencyOf(stock);
+    const { grossAmount, totalFees } = this.feeService.estimateOrder(
+      'sell',
+      quantity,
+      stock.price,
+      currency
+    );
+
+    // Sale proceeds can be spent straight away but only settle later
+    this.settleCash(currentPortfolio);
+    this.recordCashMovement(
+      currentPortfolio,
+      'sell',
+      grossAmount,
+      `Sold ${quantity} ${stock.symbol}`
+    );
+    this.recordCashMovement(currentPortfolio, 'fee', -totalFees, `Fees on ${stock.symbol} sell`);
+
+    // The gain or loss is worked out from the ledger's lots, net of fees
+    this.stocks.set(stock.symbol, stock);
+    this.recordTrade(
+      'sell',
+      stock,
+      // A sale within rounding of the whole position closes it
+      existingHolding.quantity - quantity <= QUANTITY_EPSILON ? existingHolding.quantity : quantity,
+      this.fxRateService.convert(totalFees, currentPortfolio.baseCurrency, currency)
+    );
+  }
+
+  /** Appends a trade and the fee charged on it, in the stock's currency, to the ledger */
+  private recordTrade(side: 'buy' | 'sell', stock: Stock, quantity: number, fees: number): void {
+    const timestamp = new Date().toISOString();
+    const currency = this.fxRateService.currencyOf(stock);
+    const trade: LedgerEntry = {
+      id: crypto.randomUUID(),
+      type: side,
+      symbol: stock.symbol,
+      timestamp,
+      quantity,
+      price: stock.price,
+      amount: 0,
+      currency,
+      description: `${side === 'buy' ? 'Bought' : 'Sold'} ${quantity} ${stock.symbol}`,
+    };
+    const entries = [trade];
+    if (fees > 0) {
+      entries.push({
+        id: crypto.randomUUID(),
+        type: 'fee',
+        symbol: stock.symbol,
+        timestamp,
+        quantity: 0,
+        price: 0,
+        amount: fees,
+        currency,
+        relatedEntryId: trade.id,
+        description: `Fees on ${stock.symbol} ${side}`,
+      });
+    }
+    this.ledgerService.append(entries);
+  }
+
+  private assertBuyingPower(amount: number): void {
+    const buyingPower = this.getBuyingPower();
+    if (amount > buyingPower + 0.005) {
+      throw new Error(
+        `Insufficient buying power: this order needs $${amount.toFixed(2)} ` +
+          `but only $${buyingPower.toFixed(2)} is available`
+      );
+    }
+  }
 
-      // Emit updated portfolio
+  private recordCashMovement(
+    portfolio: Portfolio,
+    type: CashMovementType,
+    amount: number,
+    description: string
+  ): void {
+    const now = new Date();
+    const isCredit = amount > 0;
+    if (amount === 0) {
+      return;
+    }
+
+    const settlesAt = isCredit
+      ? new Date(now.getTime() + APP_CONSTANTS.SETTLEMENT_DAYS * DAY_MS)
+      : now;
+
+    portfolio.cash.availableCash += amount;
+    if (!isCredit) {
+      // Debits settle immediately and use up settled cash first
+      portfolio.cash.settledCash = Math.max(0, portfolio.cash.settledCash + amount);
+    }
+
+    portfolio.cash.movements = [
+      {
+        type,
+        amount,
+        timestamp: now.toISOString(),
+        settlesAt: settlesAt.toISOString(),
+        settled: !isCredit,
+        description,
+      },
+      ...portfolio.cash.movements,
+    ];
+    this.saveCash(portfolio);
+  }
+
+  /**
+   * Moves credits whose settlement date has passed into settled cash.
+   */
+  private settleCash(portfolio: Portfolio, now = new Date()): void {
+    let isChanged = false;
+    portfolio.cash.movements = portfolio.cash.movements.map(movement => {
+      if (movement.settled || new Date(movement.settlesAt) > now) {
+        return movement;
+      }
+      portfolio.cash.settledCash = Math.min(
+        portfolio.cash.availableCash,
+        portfolio.cash.settledCash + movement.amount
+      );
+      isChanged = true;
+      return { ...movement, settled: true };
+    });
+    if (isChanged) {
+      this.saveCash(portfolio);
+    }
+  }
+
+  /**
+   * Saves the cash balances and movements. Holds aren't saved: they belong to
+   * pending orders, which place them again when restored.
+   */
+  private saveCash(portfolio: Portfolio): void {
+    this.localStorageService.saveCash({
+      baseCurrency: portfolio.baseCurrency,
+      cash: { ...portfolio.cash, heldCash: 0, holds: [] },
+    });
+  }
+
+  private revalue(baseCurrency: string): void {
+    const currentPortfolio = this.getCurrentPortfolio();
+    if (!currentPortfolio) {
+      return;
+    }
+
+    try {
+      this.rebase(currentPortfolio, baseCurrency);
+      this.recalculateTotals(currentPortfolio);
       this.portfolioSubject.next({ ...currentPortfolio });
     } catch (error) {
-      this.errorHandler.handleError(error as Error);
+      this.errorHandler.handleError(error as Error, false);
+    }
+  }
+
+  /**
+   * Converts cash and holds into a new base currency at the current rate.
+   */
+  private rebase(portfolio: Portfolio, currency: string): void {
+    if (portfolio.baseCurrency === currency) {
+      return;
     }
+
+    const rate = this.fxRateService.getRate(portfolio.baseCurrency, currency);
+    const { cash } = portfolio;
+    cash.availableCash *= rate;
+    cash.settledCash *= rate;
+    cash.heldCash *= rate;
+    cash.holds = cash.holds.map(hold => ({ ...hold, amount: hold.amount * rate }));
+    cash.movements = cash.movements.map(movement => ({
+      ...movement,
+      amount: movement.amount * rate,
+    }));
+    portfolio.baseCurrency = currency;
+    this.saveCash(portfolio);
+  }
+
+  /**
+   * Rebuilds the holdings from the ledger's open positions at the latest
+   * quotes, and works out the portfolio totals in the base currency.
+   */
+  private recalculateTotals(portfolio: Portfolio): void {
+    const fxRateOf = (currency: string) =>
+      this.fxRateService.getRate(currency, portfolio.baseCurrency);
+
+    portfolio.holdings = this.positions
+      .filter(position => position.quantity > QUANTITY_EPSILON)
+      .map(position =>
+        this.pnlService.valueHolding(position, this.getStock(position), fxRateOf(position.currency))
+      );
+    // Realized gains are converted at today's rate, not the rate on the day of each sale
+    Object.assign(
+      portfolio,
+      this.pnlService.summarize(portfolio.holdings, this.positions, fxRateOf)
+    );
+  }
+
+  /** The latest quote for a position; one never quoted is valued at its cost */
+  private getStock(position: Position): Stock {
+    return this.quoteStore.applyTo(
+      this.stocks.get(position.symbol) ?? {
+        symbol: position.symbol,
+        companyName: position.symbol,
+        price: position.costBasis / position.quantity,
+        change: 0,
+        changePercent: 0,
+        volume: 0,
+        currency: position.currency,
+      }
+    );
+  }
+
+  /** An empty portfolio holding the initial deposit */
+  private createPortfolio(): Portfolio {
+    const depositedAt = new Date().toISOString();
+
+    return {
+      baseCurrency: APP_CONSTANTS.DEFAULT_BASE_CURRENCY,
+      totalEquity: 0,
+      dayChange: 0,
+      dayChangePercent: 0,
+      unrealizedGainLoss: 0,
+      unrealizedGainLossPercent: 0,
+      realizedGainLoss: 0,
+      holdings: [],
+      cash: {
+        availableCash: APP_CONSTANTS.INITIAL_DEPOSIT,
+        settledCash: APP_CONSTANTS.INITIAL_DEPOSIT,
+        heldCash: 0,
+        holds: [],
+        movements: [
+          {
+            type: 'deposit',
+            amount: APP_CONSTANTS.INITIAL_DEPOSIT,
+            timestamp: depositedAt,
+            settlesAt: depositedAt,
+            settled: true,
+            description: 'Initial deposit',
+          },
+        ],
+      },
+    };
   }
 }
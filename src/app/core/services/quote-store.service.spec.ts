@@ -0,0 +1,27 @@
+import { TestBed } from '@angular/core/testing';
+import { QuoteStoreService } from './quote-store.service';
+
+describe('QuoteStoreService', () => {
+  let quoteStore: QuoteStoreService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    quoteStore = TestBed.inject(QuoteStoreService);
+  });
+
+  describe('update', () => {
+    it('keeps a quote the provider marked stale as stale', () => {
+      const quotedAt = new Date().toISOString();
+      quoteStore.update([{ symbol: 'AAPL', price: 150, quotedAt, isStale: true }]);
+
+      expect(quoteStore.getQuote('AAPL')?.isStale).toBeTrue();
+    });
+
+    it('stores a fresh quote as fresh', () => {
+      quoteStore.update([{ symbol: 'AAPL', price: 150 }]);
+
+      expect(quoteStore.getQuote('AAPL')?.isStale).toBeFalse();
+      expect(quoteStore.getQuote('AAPL')?.price).toBe(150);
+    });
+  });
+});
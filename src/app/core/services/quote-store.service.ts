@@ -0,0 +1,115 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, distinctUntilChanged, map, timer } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import { Quote, QuoteUpdate, Stock } from '../interfaces';
+
+/**
+ * Shared store of the latest quote per symbol. Fed by provider snapshots and
+ * the streaming feed; everything that shows or values a price reads from here.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class QuoteStoreService {
+  private quotesSubject = new BehaviorSubject<Record<string, Quote>>({});
+  public quotes$ = this.quotesSubject.asObservable();
+
+  // Every quote change, including quotes turning stale
+  private updatesSubject = new Subject<Quote>();
+  public updates$ = this.updatesSubject.asObservable();
+
+  constructor() {
+    // Without a live feed every price is a snapshot, so none goes stale with age
+    if (!environment.quoteStream.enabled) {
+      return;
+    }
+    timer(APP_CONSTANTS.QUOTE_STALE_CHECK_MS, APP_CONSTANTS.QUOTE_STALE_CHECK_MS).subscribe(() =>
+      this.markStaleQuotes()
+    );
+  }
+
+  getQuote(symbol: string): Quote | undefined {
+    return this.quotesSubject.value[symbol];
+  }
+
+  quote$(symbol: string): Observable<Quote | undefined> {
+    return this.quotes$.pipe(
+      map(quotes => quotes[symbol]),
+      distinctUntilChanged()
+    );
+  }
+
+  /**
+   * Records new prices. Updates older than the quote already held are
+   * ignored, so a slow snapshot can't overwrite a newer streamed tick.
+   */
+  update(updates: QuoteUpdate[], quotedAt = new Date().toISOString()): void {
+    const quotes = { ...this.quotesSubject.value };
+    const changed: Quote[] = [];
+
+    updates.forEach(update => {
+      const existing = quotes[update.symbol];
+      const timestamp = update.quotedAt ?? quotedAt;
+      if (existing && existing.quotedAt > timestamp) {
+        return;
+      }
+
+      const quote: Quote = {
+        symbol: update.symbol,
+        price: update.price,
+        change: update.change ?? existing?.change ?? 0,
+        changePercent: update.changePercent ?? existing?.changePercent ?? 0,
+        volume: update.volume ?? existing?.volume ?? 0,
+        quotedAt: timestamp,
+        // A quote the provider already flagged, such as one cached offline, stays stale
+        isStale: update.isStale === true || this.isOld(timestamp),
+      };
+      quotes[update.symbol] = quote;
+      changed.push(quote);
+    });
+
+    if (changed.length > 0) {
+      this.quotesSubject.next(quotes);
+      changed.forEach(quote => this.updatesSubject.next(quote));
+    }
+  }
+
+  /** Copy of the stock carrying the latest stored price, if there is one */
+  applyTo<T extends Stock>(stock: T): T {
+    const quote = this.getQuote(stock.symbol);
+    if (!quote) {
+      return stock;
+    }
+    return {
+      ...stock,
+      price: quote.price,
+      change: quote.change,
+      changePercent: quote.changePercent,
+      volume: quote.volume,
+      quotedAt: quote.quotedAt,
+      isStale: quote.isStale,
+    };
+  }
+
+  private markStaleQuotes(): void {
+    const quotes = { ...this.quotesSubject.value };
+    const expired = Object.values(quotes).filter(
+      quote => !quote.isStale && this.isOld(quote.quotedAt)
+    );
+    if (expired.length === 0) {
+      return;
+    }
+
+    expired.forEach(quote => (quotes[quote.symbol] = { ...quote, isStale: true }));
+    this.quotesSubject.next(quotes);
+    expired.forEach(quote => this.updatesSubject.next(quotes[quote.symbol]!));
+  }
+
+  private isOld(quotedAt: string): boolean {
+    return (
+      environment.quoteStream.enabled &&
+      Date.now() - new Date(quotedAt).getTime() > APP_CONSTANTS.QUOTE_STALE_AFTER_MS
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import { QuoteStreamStatus, QuoteTick } from '../interfaces';
+import { ErrorHandlerService } from './error-handler.service';
+import { QuoteStoreService } from './quote-store.service';
+
+/**
+ * WebSocket client for the streaming quote feed. Pushes every tick into the
+ * quote store and reconnects with exponential backoff when the feed drops.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class QuoteStreamService {
+  private quoteStore = inject(QuoteStoreService);
+  private errorHandler = inject(ErrorHandlerService);
+
+  private statusSubject = new BehaviorSubject<QuoteStreamStatus>('idle');
+  public status$ = this.statusSubject.asObservable();
+
+  private socket: WebSocket | null = null;
+  private symbols = new Set<string>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private isStopped = true;
+
+  connect(): void {
+    if (!environment.quoteStream.enabled || !this.isStopped) {
+      return;
+    }
+    this.isStopped = false;
+    this.open();
+  }
+
+  disconnect(): void {
+    this.isStopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+    this.statusSubject.next('idle');
+  }
+
+  /**
+   * Adds symbols to the live subscription. Subscriptions are kept for the
+   * session and replayed after every reconnect.
+   */
+  watch(symbols: string[]): void {
+    const added = symbols.filter(symbol => !this.symbols.has(symbol));
+    if (added.length === 0) {
+      return;
+    }
+    added.forEach(symbol => this.symbols.add(symbol));
+    this.sendSubscribe(added);
+  }
+
+  private open(): void {
+    this.statusSubject.next(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    const socket = new WebSocket(environment.quoteStream.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.statusSubject.next('open');
+      this.sendSubscribe([...this.symbols]);
+    };
+
+    socket.onmessage = event => this.handleMessage(event.data);
+
+    // A failed connection fires onerror and then onclose, so retry from onclose only
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      if (!this.isStopped) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private scheduleReconnect(): void {
+    const backoff = Math.min(
+      APP_CONSTANTS.STREAM_RECONNECT_MAX_MS,
+      APP_CONSTANTS.STREAM_RECONNECT_BASE_MS * Math.pow(2, this.reconnectAttempts)
+    );
+    // Jitter so many clients don't reconnect in lockstep
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+
+    this.reconnectAttempts++;
+    this.statusSubject.next('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private handleMessage(data: unknown): void {
+    if (typeof data !== 'string') {
+      return;
+    }
+
+    try {
+      const message = JSON.parse(data) as QuoteTick;
+      if (message.type !== 'tick' || typeof message.price !== 'number') {
+        return;
+      }
+      this.quoteStore.update([
+        {
+          symbol: message.symbol,
+          price: message.price,
+          change: message.change,
+          changePercent: message.changePercent,
+          volume: message.volume,
+          quotedAt: message.timestamp,
+        },
+      ]);
+    } catch (error) {
+      // A malformed message is dropped; the next tick carries the price again
+      this.errorHandler.handleError(error as Error, false);
+    }
+  }
+
+  private sendSubscribe(symbols: string[]): void {
+    if (symbols.length > 0 && this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: 'subscribe', symbols }));
+    }
+  }
+}
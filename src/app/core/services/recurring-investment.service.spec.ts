@@ -0,0 +1,54 @@
+import { TestBed } from '@angular/core/testing';
+import { Stock } from '../interfaces';
+import { provideMarketData } from './market-data.token';
+import { RecurringInvestmentService } from './recurring-investment.service';
+
+describe('RecurringInvestmentService', () => {
+  let recurringService: RecurringInvestmentService;
+
+  const stock: Stock = {
+    symbol: 'AAPL',
+    companyName: 'Apple Inc.',
+    price: 100,
+    change: 0,
+    changePercent: 0,
+    volume: 1000,
+    currency: 'USD',
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({ providers: [provideMarketData()] });
+    recurringService = TestBed.inject(RecurringInvestmentService);
+    // Only the schedule is under test, not the orders each run places
+    spyOn<any>(recurringService, 'executeRun').and.resolveTo();
+  });
+
+  describe('a monthly plan started on the 31st', () => {
+    const nextRunAfter = async (planId: string, now: Date) => {
+      await recurringService.runDuePlans(now);
+      const plan = recurringService.getPlans().find(p => p.id === planId)!;
+      const nextRunAt = new Date(plan.nextRunAt);
+      return [nextRunAt.getFullYear(), nextRunAt.getMonth() + 1, nextRunAt.getDate()];
+    };
+
+    it("runs on the last day of months that don't have one, then goes back to the 31st", async () => {
+      const plan = recurringService.createPlan(stock, 50, 'monthly', new Date(2099, 0, 31, 10))!;
+
+      expect(await nextRunAfter(plan.id, new Date(2099, 1, 1))).toEqual([2099, 2, 28]);
+      expect(await nextRunAfter(plan.id, new Date(2099, 2, 1))).toEqual([2099, 3, 31]);
+      expect(await nextRunAfter(plan.id, new Date(2099, 3, 1))).toEqual([2099, 4, 30]);
+      expect(await nextRunAfter(plan.id, new Date(2099, 4, 1))).toEqual([2099, 5, 31]);
+    });
+
+    it('keeps the time of day of the first run', async () => {
+      const plan = recurringService.createPlan(stock, 50, 'monthly', new Date(2099, 0, 31, 10))!;
+      await recurringService.runDuePlans(new Date(2099, 1, 1));
+
+      const nextRunAt = new Date(
+        recurringService.getPlans().find(p => p.id === plan.id)!.nextRunAt
+      );
+      expect(nextRunAt.getHours()).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject, Subscription, firstValueFrom, timer } from 'rxjs';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import {
+  RecurringFrequency,
+  RecurringPlan,
+  RecurringRun,
+  RecurringRunStatus,
+  Stock,
+} from '../interfaces';
+import { ErrorHandlerService } from './error-handler.service';
+import { LocalStorageService } from './local-storage.service';
+import { MARKET_DATA_PROVIDER } from './market-data.token';
+import { OrderService } from './order.service';
+
+/**
+ * Dollar-cost averaging scheduler. Each due run of a plan is placed as a
+ * normal market order, including runs missed while the app was closed.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RecurringInvestmentService {
+  private orderService = inject(OrderService);
+  private marketData = inject(MARKET_DATA_PROVIDER);
+  private localStorageService = inject(LocalStorageService);
+  private errorHandler = inject(ErrorHandlerService);
+
+  private plansSubject = new BehaviorSubject<RecurringPlan[]>(
+    this.localStorageService.getRecurringPlans()
+  );
+  public plans$ = this.plansSubject.asObservable();
+
+  private runsSubject = new BehaviorSubject<RecurringRun[]>(
+    this.localStorageService.getRecurringRuns()
+  );
+  public runs$ = this.runsSubject.asObservable();
+
+  private schedulerSubscription: Subscription | null = null;
+
+  getPlans(): RecurringPlan[] {
+    return this.plansSubject.value;
+  }
+
+  getPlansForSymbol(symbol: string): RecurringPlan[] {
+    return this.getPlans().filter(plan => plan.stock.symbol === symbol);
+  }
+
+  getRuns(planId: string): RecurringRun[] {
+    return this.runsSubject.value.filter(run => run.planId === planId);
+  }
+
+  /**
+   * Checks for due runs now and then on a fixed interval. Safe to call more
+   * than once.
+   */
+  startScheduler(): void {
+    if (this.schedulerSubscription) {
+      return;
+    }
+    this.schedulerSubscription = timer(0, APP_CONSTANTS.RECURRING_CHECK_INTERVAL_MS).subscribe(() =>
+      this.runDuePlans()
+    );
+  }
+
+  stopScheduler(): void {
+    this.schedulerSubscription?.unsubscribe();
+    this.schedulerSubscription = null;
+  }
+
+  createPlan(
+    stock: Stock,
+    amount: number,
+    frequency: RecurringFrequency,
+    startDate: Date,
+    endDate?: Date
+  ): RecurringPlan | null {
+    try {
+      if (!(amount >= 0.01)) {
+        throw new Error('Recurring amount must be at least $0.01');
+      }
+      if (endDate && endDate < startDate) {
+        throw new Error('End date must be after the start date');
+      }
+
+      const plan: RecurringPlan = {
+        id: crypto.randomUUID(),
+        stock: { ...stock },
+        amount,
+        frequency,
+        startDate: startDate.toISOString(),
+        status: 'active',
+        nextRunAt: startDate.toISOString(),
+        createdAt: new Date().toISOString(),
+      };
+      if (endDate) {
+        plan.endDate = endDate.toISOString();
+      }
+
+      this.savePlans([...this.getPlans(), plan]);
+      this.runDuePlans();
+      return this.getPlans().find(p => p.id === plan.id) ?? plan;
+    } catch (error) {
+      this.errorHandler.handleError(error as Error);
+      return null;
+    }
+  }
+
+  pausePlan(id: string): void {
+    this.updatePlan(id, plan => (plan.status === 'active' ? { ...plan, status: 'paused' } : plan));
+  }
+
+  /**
+   * Resumes a paused plan from the next future run; runs missed while paused
+   * are not caught up.
+   */
+  resumePlan(id: string): void {
+    const now = new Date();
+    this.updatePlan(id, plan => {
+      if (plan.status !== 'paused') {
+        return plan;
+      }
+      let nextRunAt = new Date(plan.nextRunAt);
+      while (nextRunAt < now) {
+        nextRunAt = this.advance(nextRunAt, plan);
+      }
+      return { ...plan, status: 'active', nextRunAt: nextRunAt.toISOString() };
+    });
+  }
+
+  deletePlan(id: string): void {
+    this.savePlans(this.getPlans().filter(plan => plan.id !== id));
+  }
+
+  /**
+   * Places an order for every run that is due, oldest first. Only the most
+   * recent missed runs are caught up; older ones are logged as skipped.
+   * Plans are advanced before any order is placed, so a scheduler tick that
+   * lands while quotes are loading can't pick up the same runs again.
+   */
+  async runDuePlans(now = new Date()): Promise<void> {
+    const runsToExecute: { plan: RecurringPlan; scheduledFor: Date }[] = [];
+
+    this.getPlans()
+      .filter(plan => plan.status === 'active')
+      .forEach(plan => {
+        const dueRuns: Date[] = [];
+        let nextRunAt = new Date(plan.nextRunAt);
+        const endDate = plan.endDate ? new Date(plan.endDate) : null;
+
+        while (nextRunAt <= now && (!endDate || nextRunAt <= endDate)) {
+          dueRuns.push(nextRunAt);
+          nextRunAt = this.advance(nextRunAt, plan);
+        }
+
+        const skipCount = Math.max(0, dueRuns.length - APP_CONSTANTS.RECURRING_MAX_CATCH_UP_RUNS);
+        dueRuns.forEach((scheduledFor, index) => {
+          if (index < skipCount) {
+            this.logRun(plan, scheduledFor, 'skipped', 'Missed while the app was closed');
+          } else {
+            runsToExecute.push({ plan, scheduledFor });
+          }
+        });
+
+        const isFinished = !!endDate && nextRunAt > endDate;
+        if (dueRuns.length > 0 || isFinished) {
+          this.updatePlan(plan.id, current => ({
+            ...current,
+            nextRunAt: nextRunAt.toISOString(),
+            status: isFinished ? 'completed' : current.status,
+          }));
+        }
+      });
+
+    for (const { plan, scheduledFor } of runsToExecute) {
+      await this.executeRun(plan, scheduledFor);
+    }
+  }
+
+  private async executeRun(plan: RecurringPlan, scheduledFor: Date): Promise<void> {
+    let stock: Stock;
+    try {
+      stock = await firstValueFrom(this.marketData.getQuote(plan.stock.symbol));
+    } catch {
+      this.logRun(plan, scheduledFor, 'failed', 'No quote available');
+      return;
+    }
+
+    // Trading rules come with the quote, or else from the stock the plan was set up for
+    const precision =
+      stock.fractionalPrecision ??
+      plan.stock.fractionalPrecision ??
+      APP_CONSTANTS.DEFAULT_FRACTIONAL_PRECISION;
+    const minimum = Math.max(
+      APP_CONSTANTS.MIN_QUANTITY,
+      stock.minOrderQuantity ?? plan.stock.minOrderQuantity ?? 0
+    );
+    const factor = Math.pow(10, precision);
+    const quantity = Math.floor((plan.amount / stock.price) * factor) / factor;
+
+    if (quantity < minimum) {
+      this.logRun(
+        plan,
+        scheduledFor,
+        'skipped',
+        `$${plan.amount} buys less than the minimum of ${minimum} ${minimum === 1 ? 'share' : 'shares'}`
+      );
+      return;
+    }
+
+    // One ID per scheduled run, so overlapping scheduler passes can't buy twice
+    const order = this.orderService.placeOrder(stock, {
+      clientOrderId: `${plan.id}-${scheduledFor.getTime()}`,
+      symbol: stock.symbol,
+      side: 'buy',
+      quantity,
+      type: 'market',
+      timeInForce: 'day',
+    });
+
+    if (order?.status === 'filled') {
+      this.logRun(plan, scheduledFor, 'filled', `Bought ${quantity} shares`, order.id);
+    } else if (order) {
+      this.logRun(plan, scheduledFor, 'queued', 'Queued until the market opens', order.id);
+    } else {
+      this.logRun(plan, scheduledFor, 'failed', 'Order was rejected');
+    }
+  }
+
+  private logRun(
+    plan: RecurringPlan,
+    scheduledFor: Date,
+    status: RecurringRunStatus,
+    message: string,
+    orderId?: string
+  ): void {
+    const run: RecurringRun = {
+      planId: plan.id,
+      symbol: plan.stock.symbol,
+      scheduledFor: scheduledFor.toISOString(),
+      processedAt: new Date().toISOString(),
+      amount: plan.amount,
+      status,
+      message,
+    };
+    if (orderId) {
+      run.orderId = orderId;
+    }
+
+    const runs = [run, ...this.runsSubject.value].slice(0, APP_CONSTANTS.MAX_RECURRING_RUNS_LOGGED);
+    this.localStorageService.saveRecurringRuns(runs);
+    this.runsSubject.next(runs);
+  }
+
+  /**
+   * The run after the given one. Monthly runs stay on the day of the month the
+   * plan started, or the month's last day when it has fewer days.
+   */
+  private advance(date: Date, plan: RecurringPlan): Date {
+    const next = new Date(date);
+    switch (plan.frequency) {
+      case 'daily':
+        next.setDate(next.getDate() + 1);
+        break;
+      case 'weekly':
+        next.setDate(next.getDate() + 7);
+        break;
+      case 'fortnightly':
+        next.setDate(next.getDate() + 14);
+        break;
+      case 'monthly': {
+        const anchorDay = new Date(plan.startDate).getDate();
+        const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 2, 0).getDate();
+        next.setDate(1);
+        next.setMonth(date.getMonth() + 1);
+        next.setDate(Math.min(anchorDay, daysInMonth));
+        break;
+      }
+    }
+    return next;
+  }
+
+  private updatePlan(id: string, update: (plan: RecurringPlan) => RecurringPlan): void {
+    this.savePlans(this.getPlans().map(plan => (plan.id === id ? update(plan) : plan)));
+  }
+
+  private savePlans(plans: RecurringPlan[]): void {
+    this.localStorageService.saveRecurringPlans(plans);
+    this.plansSubject.next(plans);
+  }
+}
@@ -0,0 +1,285 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, catchError, debounceTime, map, of, switchMap } from 'rxjs';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import {
+  HighlightSegment,
+  InstrumentType,
+  SearchMatchKind,
+  SearchResponse,
+  SearchResult,
+  SearchResultGroup,
+  Stock,
+} from '../interfaces';
+import { ErrorHandlerService } from './error-handler.service';
+import { MARKET_DATA_PROVIDER } from './market-data.token';
+
+const KIND_ORDER: Record<SearchMatchKind, number> = {
+  exact: 0,
+  symbol_prefix: 1,
+  name_prefix: 2,
+  fuzzy: 3,
+};
+
+const GROUP_LABELS: Record<InstrumentType, string> = {
+  stock: 'Stocks',
+  etf: 'ETFs',
+};
+
+/** Where a query matched, as character positions in the symbol and name */
+interface Match {
+  kind: SearchMatchKind;
+  score: number;
+  symbolIndices: number[];
+  nameIndices: number[];
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent characters as one typo each.
+ */
+function typoDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i]![j] = Math.min(d[i - 1]![j]! + 1, d[i]![j - 1]! + 1, d[i - 1]![j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i]![j] = Math.min(d[i]![j]!, d[i - 2]![j - 2]! + 1);
+      }
+    }
+  }
+  return d[a.length]![b.length]!;
+}
+
+function range(start: number, length: number): number[] {
+  return Array.from({ length }, (_, i) => start + i);
+}
+
+/**
+ * Ranks market data search results and debounces search input.
+ *
+ * Results are ordered exact ticker, ticker prefix, name prefix, then fuzzy
+ * matches (substrings, then letters in order, then up to two typos), and
+ * grouped by instrument type.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SearchService {
+  private marketData = inject(MARKET_DATA_PROVIDER);
+  private errorHandler = inject(ErrorHandlerService);
+
+  /**
+   * Searches as the query changes. Input is debounced, and a response for a
+   * query that has since changed is dropped, cancelling its request.
+   */
+  search(query$: Observable<string>): Observable<SearchResponse> {
+    return query$.pipe(
+      map(query => query.trim()),
+      debounceTime(APP_CONSTANTS.SEARCH_DEBOUNCE_MS),
+      switchMap(query => {
+        if (!query) {
+          return of(this.rank(query, []));
+        }
+        return this.marketData.search(query).pipe(
+          map(stocks => this.rank(query, stocks)),
+          catchError(error => {
+            this.errorHandler.handleError(error as Error, false);
+            return of(this.rank(query, []));
+          })
+        );
+      })
+    );
+  }
+
+  /** Ranks, highlights and groups candidate stocks for a query, dropping non-matches */
+  rank(query: string, stocks: Stock[]): SearchResponse {
+    const term = query.trim().toLowerCase();
+    const ranked = stocks
+      .map(stock => this.toResult(stock, term))
+      .filter((result): result is SearchResult => result !== null)
+      .sort((a, b) => this.compare(a, b))
+      .slice(0, APP_CONSTANTS.MAX_SEARCH_RESULTS);
+
+    // Groups appear in the order of their best result
+    const groups: SearchResultGroup[] = [];
+    ranked.forEach(result => {
+      const type = result.stock.type ?? 'stock';
+      let group = groups.find(g => g.type === type);
+      if (!group) {
+        group = { type, label: GROUP_LABELS[type], results: [] };
+        groups.push(group);
+      }
+      group.results.push(result);
+    });
+
+    return {
+      query: query.trim(),
+      groups,
+      results: groups.flatMap(group => group.results),
+    };
+  }
+
+  private toResult(stock: Stock, term: string): SearchResult | null {
+    const match = term
+      ? this.match(stock.symbol.toLowerCase(), stock.companyName.toLowerCase(), term)
+      : null;
+    if (!match) {
+      return null;
+    }
+    return {
+      stock,
+      kind: match.kind,
+      score: match.score,
+      symbolSegments: this.toSegments(stock.symbol, match.symbolIndices),
+      nameSegments: this.toSegments(stock.companyName, match.nameIndices),
+    };
+  }
+
+  private match(symbol: string, name: string, term: string): Match | null {
+    if (symbol === term) {
+      return { kind: 'exact', score: 0, symbolIndices: range(0, term.length), nameIndices: [] };
+    }
+    if (symbol.startsWith(term)) {
+      // The more of the ticker typed, the better
+      return {
+        kind: 'symbol_prefix',
+        score: term.length / symbol.length,
+        symbolIndices: range(0, term.length),
+        nameIndices: [],
+      };
+    }
+
+    // The start of the name beats the start of a later word in it
+    const wordStart = this.getWordStarts(name).find(start => name.startsWith(term, start));
+    if (wordStart !== undefined) {
+      return {
+        kind: 'name_prefix',
+        score: wordStart === 0 ? 1 : 0,
+        symbolIndices: [],
+        nameIndices: range(wordStart, term.length),
+      };
+    }
+
+    // A single letter only matches the start of a ticker or word
+    if (term.length < 2) {
+      return null;
+    }
+    return (
+      this.matchSubstring(symbol, name, term) ??
+      this.matchInOrder(name, term) ??
+      this.matchTypo(symbol, name, term)
+    );
+  }
+
+  private matchSubstring(symbol: string, name: string, term: string): Match | null {
+    const inSymbol = symbol.indexOf(term);
+    if (inSymbol > -1) {
+      return {
+        kind: 'fuzzy',
+        score: 3 + term.length / symbol.length,
+        symbolIndices: range(inSymbol, term.length),
+        nameIndices: [],
+      };
+    }
+    const inName = name.indexOf(term);
+    if (inName > -1) {
+      return {
+        kind: 'fuzzy',
+        score: 3 + term.length / name.length,
+        symbolIndices: [],
+        nameIndices: range(inName, term.length),
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Every letter of the query in order in the name, starting at the start of
+   * a word. Scored by how close together the letters are.
+   */
+  private matchInOrder(name: string, term: string): Match | null {
+    let best: Match | null = null;
+    this.getWordStarts(name)
+      .filter(start => name[start] === term[0])
+      .forEach(start => {
+        const indices = [start];
+        for (const char of term.slice(1)) {
+          const index = name.indexOf(char, indices[indices.length - 1]! + 1);
+          if (index === -1) {
+            return;
+          }
+          indices.push(index);
+        }
+        const score = 2 + term.length / (indices[indices.length - 1]! - start + 1);
+        if (!best || score > best.score) {
+          best = { kind: 'fuzzy', score, symbolIndices: [], nameIndices: indices };
+        }
+      });
+    return best;
+  }
+
+  /** The ticker or the start of a word in the name, within one typo (two for longer queries) */
+  private matchTypo(symbol: string, name: string, term: string): Match | null {
+    if (term.length < 4) {
+      return null;
+    }
+    const maxTypos = term.length <= 4 ? 1 : 2;
+    let best: Match | null = null;
+    const consider = (distance: number, match: Omit<Match, 'kind' | 'score'>) => {
+      const score = 1 - distance / (maxTypos + 1);
+      if (distance <= maxTypos && (!best || score > best.score)) {
+        best = { kind: 'fuzzy', score, ...match };
+      }
+    };
+
+    consider(typoDistance(term, symbol), {
+      symbolIndices: range(0, symbol.length),
+      nameIndices: [],
+    });
+    this.getWordStarts(name).forEach(start => {
+      // Compare against the word start a letter shorter or longer too, for a missing or extra letter
+      [term.length - 1, term.length, term.length + 1].forEach(length => {
+        const candidate = name.slice(start, start + length);
+        if (candidate.length === length) {
+          consider(typoDistance(term, candidate), {
+            symbolIndices: [],
+            nameIndices: range(start, length),
+          });
+        }
+      });
+    });
+    return best;
+  }
+
+  private getWordStarts(text: string): number[] {
+    return [...text.matchAll(/[a-z0-9]+/g)].map(match => match.index ?? 0);
+  }
+
+  private compare(a: SearchResult, b: SearchResult): number {
+    return (
+      KIND_ORDER[a.kind] - KIND_ORDER[b.kind] ||
+      b.score - a.score ||
+      b.stock.volume - a.stock.volume ||
+      a.stock.symbol.localeCompare(b.stock.symbol)
+    );
+  }
+
+  /** Splits text into runs of matched and unmatched characters */
+  private toSegments(text: string, indices: number[]): HighlightSegment[] {
+    const matched = new Set(indices);
+    const segments: HighlightSegment[] = [];
+    [...text].forEach((char, i) => {
+      const isMatch = matched.has(i);
+      const last = segments[segments.length - 1];
+      if (last && last.isMatch === isMatch) {
+        last.text += char;
+      } else {
+        segments.push({ text: char, isMatch });
+      }
+    });
+    return segments;
+  }
+}
@@ -0,0 +1,125 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import {
+  FinancialYear,
+  FinancialYearStart,
+  HoldingTerm,
+  RealizedGain,
+  RealizedGainsReport,
+  RealizedGainsTotal,
+} from '../interfaces';
+import { LedgerService } from './ledger.service';
+import { LocalStorageService } from './local-storage.service';
+
+/**
+ * Realized capital gains by financial year, split into short-term and
+ * long-term holdings. Years start on the date the user chose, in local time.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class TaxReportService {
+  private ledgerService = inject(LedgerService);
+  private localStorageService = inject(LocalStorageService);
+
+  private financialYearStartSubject = new BehaviorSubject<FinancialYearStart>(
+    this.localStorageService.getFinancialYearStart() ?? APP_CONSTANTS.DEFAULT_FINANCIAL_YEAR_START
+  );
+  public financialYearStart$ = this.financialYearStartSubject.asObservable();
+
+  getFinancialYearStart(): FinancialYearStart {
+    return this.financialYearStartSubject.value;
+  }
+
+  /** Throws for a date that isn't in every year, such as 29 February */
+  setFinancialYearStart(start: FinancialYearStart): void {
+    // 2001 wasn't a leap year, so the date only rolls over if it's missing from some years
+    const date = new Date(2001, start.month - 1, start.day);
+    if (date.getMonth() !== start.month - 1 || date.getDate() !== start.day) {
+      throw new Error('Choose a financial year start date that falls in every year');
+    }
+    this.localStorageService.saveFinancialYearStart(start);
+    this.financialYearStartSubject.next(start);
+  }
+
+  /** The financial year a date falls in */
+  getFinancialYear(date = new Date()): FinancialYear {
+    const { month, day } = this.getFinancialYearStart();
+    const startsThisYear = date >= new Date(date.getFullYear(), month - 1, day);
+    return this.toFinancialYear(date.getFullYear() - (startsThisYear ? 0 : 1));
+  }
+
+  /** Every financial year from the first ledger entry to now, newest first */
+  getFinancialYears(now = new Date()): FinancialYear[] {
+    const timestamps = this.ledgerService.getEntries().map(entry => entry.timestamp);
+    const first = timestamps.length ? new Date(timestamps.sort()[0]!) : now;
+    const firstYear = new Date(this.getFinancialYear(first).start).getFullYear();
+    const currentYear = new Date(this.getFinancialYear(now).start).getFullYear();
+    return Array.from({ length: currentYear - firstYear + 1 }, (_, i) =>
+      this.toFinancialYear(currentYear - i)
+    );
+  }
+
+  /**
+   * Every disposal of shares in the financial year, by sale or delisting,
+   * with totals per currency and holding period. Cost bases include buy fees;
+   * fees are the sell fees.
+   */
+  getRealizedGains(financialYear: FinancialYear): RealizedGainsReport {
+    const start = new Date(financialYear.start);
+    const end = new Date(financialYear.end);
+
+    const gains: RealizedGain[] = this.ledgerService
+      .getPositions()
+      .flatMap(position =>
+        position.disposals.map(disposal => ({
+          ...disposal,
+          currency: position.currency,
+          term: this.getTerm(disposal.acquiredAt, disposal.disposedAt),
+        }))
+      )
+      .filter(gain => {
+        const disposedAt = new Date(gain.disposedAt);
+        return disposedAt >= start && disposedAt < end;
+      })
+      .sort((a, b) => a.disposedAt.localeCompare(b.disposedAt));
+
+    const totals = new Map<string, RealizedGainsTotal>();
+    gains.forEach(gain => {
+      const key = `${gain.currency}:${gain.term}`;
+      const total = totals.get(key) ?? {
+        currency: gain.currency,
+        term: gain.term,
+        proceeds: 0,
+        costBasis: 0,
+        fees: 0,
+        gainLoss: 0,
+      };
+      total.proceeds += gain.proceeds;
+      total.costBasis += gain.costBasis;
+      total.fees += gain.fees;
+      total.gainLoss += gain.gainLoss;
+      totals.set(key, total);
+    });
+
+    return { financialYear, gains, totals: [...totals.values()] };
+  }
+
+  /** Long-term once held for more than LONG_TERM_HOLDING_MONTHS */
+  private getTerm(acquiredAt: string, disposedAt: string): HoldingTerm {
+    const longTermAfter = new Date(acquiredAt);
+    longTermAfter.setMonth(longTermAfter.getMonth() + APP_CONSTANTS.LONG_TERM_HOLDING_MONTHS);
+    return new Date(disposedAt) > longTermAfter ? 'long' : 'short';
+  }
+
+  private toFinancialYear(startYear: number): FinancialYear {
+    const { month, day } = this.getFinancialYearStart();
+    const isCalendarYear = month === 1 && day === 1;
+    return {
+      label: isCalendarYear ? `${startYear}` : `FY${startYear}–${String(startYear + 1).slice(-2)}`,
+      start: new Date(startYear, month - 1, day).toISOString(),
+      end: new Date(startYear + 1, month - 1, day).toISOString(),
+    };
+  }
+}
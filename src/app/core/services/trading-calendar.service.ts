@@ -0,0 +1,307 @@
+import { Injectable } from '@angular/core';
+import { Observable, map, shareReplay, timer } from 'rxjs';
+import { APP_CONSTANTS } from '../constants/app.constants';
+import { ExchangeCalendar, MarketSession, MarketStatus } from '../interfaces';
+
+const MINUTE_MS = 60 * 1000;
+
+// Longest run of non-trading days we search through for the next session
+const MAX_DAYS_AHEAD = 14;
+
+const US_HOLIDAYS = [
+  '2026-01-01',
+  '2026-01-19',
+  '2026-02-16',
+  '2026-04-03',
+  '2026-05-25',
+  '2026-06-19',
+  '2026-07-03',
+  '2026-09-07',
+  '2026-11-26',
+  '2026-12-25',
+  '2027-01-01',
+  '2027-01-18',
+  '2027-02-15',
+  '2027-03-26',
+  '2027-05-31',
+  '2027-06-18',
+  '2027-07-05',
+  '2027-09-06',
+  '2027-11-25',
+  '2027-12-24',
+];
+
+// Holiday lists are published a year ahead by each exchange and need a yearly update
+const EXCHANGE_CALENDARS: Record<string, ExchangeCalendar> = {
+  NYSE: {
+    code: 'NYSE',
+    name: 'New York Stock Exchange',
+    timeZone: 'America/New_York',
+    preMarketOpen: '04:00',
+    regularOpen: '09:30',
+    regularClose: '16:00',
+    afterHoursClose: '20:00',
+    holidays: US_HOLIDAYS,
+  },
+  NASDAQ: {
+    code: 'NASDAQ',
+    name: 'Nasdaq',
+    timeZone: 'America/New_York',
+    preMarketOpen: '04:00',
+    regularOpen: '09:30',
+    regularClose: '16:00',
+    afterHoursClose: '20:00',
+    holidays: US_HOLIDAYS,
+  },
+  ASX: {
+    code: 'ASX',
+    name: 'Australian Securities Exchange',
+    timeZone: 'Australia/Sydney',
+    regularOpen: '10:00',
+    regularClose: '16:00',
+    holidays: [
+      '2026-01-01',
+      '2026-01-26',
+      '2026-04-03',
+      '2026-04-06',
+      '2026-06-08',
+      '2026-12-25',
+      '2026-12-28',
+      '2027-01-01',
+      '2027-01-26',
+      '2027-03-26',
+      '2027-03-29',
+      '2027-06-14',
+      '2027-12-27',
+      '2027-12-28',
+    ],
+  },
+};
+
+interface ZonedDate {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  minutes: number;
+}
+
+/**
+ * Exchange trading hours, holidays and the session in effect at a given time.
+ * Only the regular session executes orders; pre-market and after-hours are
+ * reported for display.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class TradingCalendarService {
+  /** Status of the default exchange, refreshed every minute */
+  public marketStatus$: Observable<MarketStatus> = timer(
+    0,
+    APP_CONSTANTS.MARKET_STATUS_REFRESH_MS
+  ).pipe(
+    map(() => this.getMarketStatus()),
+    shareReplay({ bufferSize: 1, refCount: true })
+  );
+
+  getCalendar(exchange?: string): ExchangeCalendar {
+    return (
+      EXCHANGE_CALENDARS[exchange ?? APP_CONSTANTS.DEFAULT_EXCHANGE] ??
+      EXCHANGE_CALENDARS[APP_CONSTANTS.DEFAULT_EXCHANGE]!
+    );
+  }
+
+  isMarketOpen(exchange?: string, now = new Date()): boolean {
+    return this.getSession(exchange, now) === 'regular';
+  }
+
+  getSession(exchange?: string, now = new Date()): MarketSession {
+    const calendar = this.getCalendar(exchange);
+    const zoned = this.toZoned(now, calendar.timeZone);
+    if (!this.isTradingDay(calendar, zoned)) {
+      return 'closed';
+    }
+
+    const open = this.parseTime(calendar.regularOpen);
+    const close = this.parseTime(calendar.regularClose);
+    if (zoned.minutes >= open && zoned.minutes < close) {
+      return 'regular';
+    }
+    if (calendar.preMarketOpen && zoned.minutes >= this.parseTime(calendar.preMarketOpen)) {
+      if (zoned.minutes < open) {
+        return 'pre_market';
+      }
+    }
+    if (calendar.afterHoursClose && zoned.minutes >= close) {
+      if (zoned.minutes < this.parseTime(calendar.afterHoursClose)) {
+        return 'after_hours';
+      }
+    }
+    return 'closed';
+  }
+
+  /**
+   * Start of the next regular session after `from`, or null if none is found
+   * within the search window.
+   */
+  getNextOpen(exchange?: string, from = new Date()): Date | null {
+    return this.findSessionBoundary(exchange, from, 'regularOpen');
+  }
+
+  /**
+   * End of the regular session in progress at `from`, or of the next one if
+   * the market is closed.
+   */
+  getNextClose(exchange?: string, from = new Date()): Date | null {
+    return this.findSessionBoundary(exchange, from, 'regularClose');
+  }
+
+  getMarketStatus(exchange?: string, now = new Date()): MarketStatus {
+    const calendar = this.getCalendar(exchange);
+    const session = this.getSession(calendar.code, now);
+
+    if (session === 'regular') {
+      const nextClose = this.getNextClose(calendar.code, now);
+      const status: MarketStatus = {
+        exchange: calendar.code,
+        session,
+        isOpen: true,
+        message: nextClose
+          ? `Market open · closes in ${this.formatDuration(nextClose.getTime() - now.getTime())}`
+          : 'Market open',
+      };
+      if (nextClose) {
+        status.nextClose = nextClose.toISOString();
+      }
+      return status;
+    }
+
+    const nextOpen = this.getNextOpen(calendar.code, now);
+    const label =
+      session === 'pre_market'
+        ? 'Pre-market'
+        : session === 'after_hours'
+          ? 'After hours'
+          : 'Market closed';
+    const status: MarketStatus = {
+      exchange: calendar.code,
+      session,
+      isOpen: false,
+      message: nextOpen
+        ? `${label} · opens in ${this.formatDuration(nextOpen.getTime() - now.getTime())}`
+        : label,
+    };
+    if (nextOpen) {
+      status.nextOpen = nextOpen.toISOString();
+    }
+    return status;
+  }
+
+  /** Rounded, human-readable length of time, e.g. "45 minutes" or "3 hours" */
+  formatDuration(ms: number): string {
+    const minutes = Math.max(1, Math.round(ms / MINUTE_MS));
+    if (minutes < 60) {
+      return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+    }
+    const hours = Math.round(minutes / 60);
+    if (hours < 48) {
+      return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+    }
+    const days = Math.round(hours / 24);
+    return `${days} days`;
+  }
+
+  private findSessionBoundary(
+    exchange: string | undefined,
+    from: Date,
+    boundary: 'regularOpen' | 'regularClose'
+  ): Date | null {
+    const calendar = this.getCalendar(exchange);
+    const start = this.toZoned(from, calendar.timeZone);
+
+    // Walk calendar days in the exchange's zone so DST changes can't skip a day
+    for (let offset = 0; offset <= MAX_DAYS_AHEAD; offset++) {
+      const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+      const zoned: ZonedDate = {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        weekday: date.getUTCDay(),
+        minutes: 0,
+      };
+      if (!this.isTradingDay(calendar, zoned)) {
+        continue;
+      }
+
+      const candidate = this.fromZoned(
+        zoned,
+        this.parseTime(calendar[boundary]),
+        calendar.timeZone
+      );
+      if (candidate > from) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  private isTradingDay(calendar: ExchangeCalendar, zoned: ZonedDate): boolean {
+    if (zoned.weekday === 0 || zoned.weekday === 6) {
+      return false;
+    }
+    const month = `${zoned.month}`.padStart(2, '0');
+    const day = `${zoned.day}`.padStart(2, '0');
+    return !calendar.holidays.includes(`${zoned.year}-${month}-${day}`);
+  }
+
+  /** Wall-clock date and time of an instant in the given time zone */
+  private toZoned(date: Date, timeZone: string): ZonedDate {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      parts.find(p => p.type === type)?.value ?? '';
+    const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+    return {
+      year: Number(part('year')),
+      month: Number(part('month')),
+      day: Number(part('day')),
+      weekday: weekdays.indexOf(part('weekday')),
+      minutes: Number(part('hour')) * 60 + Number(part('minute')),
+    };
+  }
+
+  /** Instant at which the given wall-clock time occurs in the time zone */
+  private fromZoned(zoned: ZonedDate, minutes: number, timeZone: string): Date {
+    const wallClock = Date.UTC(zoned.year, zoned.month - 1, zoned.day, 0, minutes);
+
+    // Correct by the zone's UTC offset, twice in case the first guess crosses a DST change
+    let instant = wallClock;
+    for (let i = 0; i < 2; i++) {
+      const actual = this.toZoned(new Date(instant), timeZone);
+      const actualWallClock = Date.UTC(
+        actual.year,
+        actual.month - 1,
+        actual.day,
+        0,
+        actual.minutes
+      );
+      instant += wallClock - actualWallClock;
+    }
+    return new Date(instant);
+  }
+
+  private parseTime(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours ?? 0) * 60 + (minutes ?? 0);
+  }
+}
@@ -1,15 +1,25 @@
 import { CommonModule } from '@angular/common';
-import { Component, OnInit, inject } from '@angular/core';
+import { Component, DestroyRef, OnInit, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { FormsModule } from '@angular/forms';
 import { Router, RouterModule } from '@angular/router';
 import { IonicModule } from '@ionic/angular';
+import { Subject, take } from 'rxjs';
 
-import { OrderModalComponent, StockCardComponent } from '../../components';
+import {
+  HighlightTextComponent,
+  MarketStatusBannerComponent,
+  StockCardComponent,
+} from '../../components';
 import { StockAvatarComponent } from '../../components/molecules/stock-avatar/stock-avatar.component';
-import { Stock } from '../../core/interfaces';
+import { SearchResponse, SearchResult, Stock } from '../../core/interfaces';
+import { ErrorHandlerService } from '../../core/services/error-handler.service';
 import { LocalStorageService } from '../../core/services/local-storage.service';
-import { MockDataService } from '../../core/services/mock-data.service';
-import { ModalService } from '../../core/services/modal.service';
+import { MARKET_DATA_PROVIDER } from '../../core/services/market-data.token';
+import { QuoteStoreService } from '../../core/services/quote-store.service';
+import { QuoteStreamService } from '../../core/services/quote-stream.service';
+import { SearchService } from '../../core/services/search.service';
+import { TradingCalendarService } from '../../core/services/trading-calendar.service';
 
 @Component({
   selector: 'app-discover',
@@ -19,35 +29,42 @@ import { ModalService } from '../../core/services/modal.service';
     FormsModule,
     IonicModule,
     RouterModule,
-    OrderModalComponent,
+    HighlightTextComponent,
+    MarketStatusBannerComponent,
     StockAvatarComponent,
     StockCardComponent,
   ],
   templateUrl: './discover.page.html',
 })
 export class DiscoverPage implements OnInit {
-  private mockDataService = inject(MockDataService);
+  private marketData = inject(MARKET_DATA_PROVIDER);
+  private errorHandler = inject(ErrorHandlerService);
   private localStorageService = inject(LocalStorageService);
-  private modalService = inject(ModalService);
   private router = inject(Router);
-
+  private tradingCalendarService = inject(TradingCalendarService);
+  private quoteStore = inject(QuoteStoreService);
+  private quoteStream = inject(QuoteStreamService);
+  private searchService = inject(SearchService);
+  private destroyRef = inject(DestroyRef);
+  private searchQuery$ = new Subject<string>();
+
+  marketStatus$ = this.tradingCalendarService.marketStatus$;
   searchQuery = '';
   isSearching = false;
   isSearchFocused = false;
-  searchResults: Stock[] = [];
+  isSearchPending = false;
+  searchResponse: SearchResponse | null = null;
+  searchResults: SearchResult[] = [];
   recentSearches: Stock[] = [];
   topVolumeStocks: Stock[] = [];
   selectedSearchIndex = -1; // Track currently selected search result
 
-  // Modal state
-  isOrderModalVisible = false;
-  selectedStock: Stock | null = null;
-
   constructor() {}
 
   ngOnInit() {
     this.loadData();
-    this.subscribeToModal();
+    this.subscribeToQuotes();
+    this.subscribeToSearch();
   }
 
   private loadData() {
@@ -55,31 +72,60 @@ export class DiscoverPage implements OnInit {
     this.localStorageService.clearRecentSearches();
 
     // Add some mock recent searches to populate the list
-    const allStocks = this.mockDataService.getMockStocks();
-    this.recentSearches = [
-      allStocks[0], // AAPL
-      allStocks[1], // TSLA
-      allStocks[2], // TIK
-      allStocks[3], // FIG
-      allStocks[4], // GOOG
-    ].filter(stock => stock !== undefined) as Stock[];
-
-    // Store these mock searches in localStorage for persistence
-    this.recentSearches.forEach(stock => {
-      this.localStorageService.addRecentSearch(stock);
+    this.marketData.getQuotes(['AAPL', 'TSLA', 'TIK', 'FIG', 'ABNB']).subscribe({
+      next: stocks => {
+        this.recentSearches = stocks;
+
+        // Store these mock searches in localStorage for persistence
+        this.recentSearches.forEach(stock => {
+          this.localStorageService.addRecentSearch(stock);
+        });
+      },
+      error: error => this.errorHandler.handleError(error as Error),
+    });
+
+    this.marketData.getMovers('active').subscribe({
+      next: stocks => {
+        const topVolumeStocks = stocks.slice(0, 3);
+        this.quoteStore.update(topVolumeStocks);
+        this.quoteStream.watch(topVolumeStocks.map(stock => stock.symbol));
+        this.topVolumeStocks = topVolumeStocks.map(stock => this.quoteStore.applyTo(stock));
+      },
+      error: error => this.errorHandler.handleError(error as Error),
+    });
+  }
+
+  private subscribeToQuotes() {
+    // Keep the top volume cards on the latest streamed prices
+    this.quoteStore.quotes$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      this.topVolumeStocks = this.topVolumeStocks.map(stock => this.quoteStore.applyTo(stock));
     });
+  }
 
-    this.topVolumeStocks = this.mockDataService.getTrendingStocks().slice(0, 3);
+  private subscribeToSearch() {
+    this.searchService
+      .search(this.searchQuery$)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(response => {
+        // A response for a query that's since been cleared is not shown
+        if (response.query !== this.searchQuery.trim()) {
+          return;
+        }
+        this.searchResponse = response;
+        this.searchResults = response.results;
+        this.isSearchPending = false;
+        this.selectedSearchIndex = -1;
+      });
   }
 
   onSearchChange(query: string) {
     this.searchQuery = query;
     this.isSearching = query.length > 0;
+    this.isSearchPending = query.trim().length > 0;
+    this.searchQuery$.next(query);
 
-    if (this.isSearching) {
-      this.performSearch(query);
-    } else {
-      this.searchResults = [];
+    if (!this.isSearching) {
+      this.clearSearchResults();
     }
   }
 
@@ -127,9 +173,9 @@ export class DiscoverPage implements OnInit {
       case 'Enter':
         event.preventDefault();
         if (this.selectedSearchIndex >= 0) {
-          const selectedStock = this.searchResults[this.selectedSearchIndex];
-          if (selectedStock) {
-            this.navigateToStock(selectedStock.symbol);
+          const selectedResult = this.searchResults[this.selectedSearchIndex];
+          if (selectedResult) {
+            this.navigateToStock(selectedResult.stock.symbol);
           }
         }
         break;
@@ -151,88 +197,50 @@ export class DiscoverPage implements OnInit {
   }
 
   onSearchClear() {
-    this.searchQuery = '';
-    this.isSearching = false;
-    this.isSearchFocused = false;
-    this.searchResults = [];
+    this.onCancelSearch();
   }
 
   onCancelSearch() {
     this.searchQuery = '';
+    // Replaces the pending query, so a debounced search doesn't still go out
+    this.searchQuery$.next('');
     this.isSearching = false;
     this.isSearchFocused = false;
-    this.searchResults = [];
+    this.clearSearchResults();
   }
 
-  private performSearch(query: string) {
-    // Mock search implementation
-    const allStocks = this.mockDataService.getMockStocks();
-    this.searchResults = allStocks.filter(
-      stock =>
-        stock.symbol.toLowerCase().includes(query.toLowerCase()) ||
-        stock.companyName.toLowerCase().includes(query.toLowerCase())
-    );
+  /** Position of a result in keyboard navigation order */
+  getSearchIndex(result: SearchResult): number {
+    return this.searchResults.indexOf(result);
+  }
+
+  private clearSearchResults() {
+    this.isSearchPending = false;
+    this.searchResponse = null;
+    this.searchResults = [];
+    this.selectedSearchIndex = -1;
   }
 
   navigateToStock(symbol: string) {
     // This method is used for search results - add to recent searches
-    const allStocks = this.mockDataService.getMockStocks();
-    const stock = allStocks.find(s => s.symbol === symbol);
-    if (stock) {
-      this.localStorageService.addRecentSearch(stock);
-      this.recentSearches = this.localStorageService.getRecentSearches();
-
-      // Open modal instead of navigating
-      this.modalService.openOrderModal(stock);
-    }
+    // Only the first quote is needed to navigate; a cached one will do
+    this.marketData
+      .getQuote(symbol)
+      .pipe(take(1))
+      .subscribe({
+        next: stock => {
+          this.localStorageService.addRecentSearch(stock);
+          this.recentSearches = this.localStorageService.getRecentSearches();
+
+          this.router.navigate(['/tabs/discover/stock', stock.symbol]);
+        },
+        error: error => this.errorHandler.handleError(error as Error),
+      });
   }
 
   navigateToRecentStock(symbol: string) {
     // This method is used for recent searches - don't add to recent searches again
-    const allStocks = this.mockDataService.getMockStocks();
-    const stock = allStocks.find(s => s.symbol === symbol);
-    if (stock) {
-      // Just open modal, don't add to recent searches
-      this.modalService.openOrderModal(stock);
-    }
-  }
-
-  private subscribeToModal() {
-    this.modalService.orderModalVisible$.subscribe(visible => {
-      this.isOrderModalVisible = visible;
-    });
-
-    this.modalService.selectedStock$.subscribe(stock => {
-      this.selectedStock = stock;
-    });
-  }
-
-  onOrderModalClosed() {
-    this.modalService.closeOrderModal();
-  }
-
-  onOrderCompleted() {
-    // Update the stock data to show zero change after successful order
-    this.modalService.updateStockAfterOrder();
-
-    // Update the relevant stock lists that contain this stock
-    // Use selectedStock from the component since it's synchronized with the modal service
-    if (this.selectedStock) {
-      // Update in top volume stocks if present
-      this.topVolumeStocks = this.topVolumeStocks.map(stock =>
-        stock.symbol === this.selectedStock!.symbol ? this.selectedStock! : stock
-      );
-
-      // Update in recent searches if present
-      this.recentSearches = this.recentSearches.map(stock =>
-        stock.symbol === this.selectedStock!.symbol ? this.selectedStock! : stock
-      );
-
-      // Update in search results if present
-      this.searchResults = this.searchResults.map(stock =>
-        stock.symbol === this.selectedStock!.symbol ? this.selectedStock! : stock
-      );
-    }
+    this.router.navigate(['/tabs/discover/stock', symbol]);
   }
 
   getChangeClasses(change: number): string {
@@ -0,0 +1,131 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { Router, RouterModule } from '@angular/router';
+import { IonicModule } from '@ionic/angular';
+
+import { ImportField, ImportPreset, ImportPreview } from '../../core/interfaces';
+import { ErrorHandlerService } from '../../core/services/error-handler.service';
+import { HoldingsImportService } from '../../core/services/holdings-import.service';
+
+@Component({
+  selector: 'app-import-holdings',
+  standalone: true,
+  imports: [CommonModule, IonicModule, RouterModule],
+  templateUrl: './import-holdings.page.html',
+})
+export class ImportHoldingsPage {
+  private holdingsImportService = inject(HoldingsImportService);
+  private errorHandler = inject(ErrorHandlerService);
+  private router = inject(Router);
+
+  readonly presets = this.holdingsImportService.getPresets();
+  readonly fields: { field: ImportField; label: string }[] = [
+    { field: 'symbol', label: 'Symbol' },
+    { field: 'quantity', label: 'Quantity' },
+    { field: 'cost', label: 'Cost' },
+    { field: 'date', label: 'Date acquired' },
+    { field: 'currency', label: 'Currency' },
+  ];
+
+  fileName: string | null = null;
+  preset: ImportPreset | null = null;
+  preview: ImportPreview | null = null;
+  validRowCount = 0;
+
+  private csv = '';
+
+  async onFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    try {
+      this.csv = await file.text();
+      this.fileName = file.name;
+      this.setPreset(this.holdingsImportService.detectPreset(this.csv));
+    } catch (error) {
+      this.errorHandler.handleError(error as Error);
+    } finally {
+      // Picking the same file again after fixing it should reload it
+      input.value = '';
+    }
+  }
+
+  onPresetChange(event: Event) {
+    const id = (event.target as HTMLSelectElement).value;
+    const preset = this.presets.find(p => p.id === id);
+    if (preset) {
+      this.setPreset(preset);
+    }
+  }
+
+  onColumnChange(field: ImportField, event: Event) {
+    const preset = this.preset;
+    if (preset) {
+      preset.columns[field] = (event.target as HTMLSelectElement).value || null;
+      this.updatePreview();
+    }
+  }
+
+  onCostTypeChange(event: Event) {
+    const preset = this.preset;
+    if (preset) {
+      preset.costIsTotal = (event.target as HTMLSelectElement).value === 'total';
+      this.updatePreview();
+    }
+  }
+
+  onDateOrderChange(event: Event) {
+    const preset = this.preset;
+    if (preset) {
+      preset.dateOrder = (event.target as HTMLSelectElement).value === 'mdy' ? 'mdy' : 'dmy';
+      this.updatePreview();
+    }
+  }
+
+  async importHoldings() {
+    if (!this.preview) {
+      return;
+    }
+
+    try {
+      const count = this.holdingsImportService.importRows(this.preview);
+      // The page stays cached, so coming back to it starts from a new file
+      this.reset();
+      this.router.navigate(['/tabs/invest']);
+      await this.errorHandler.showSuccessToast(
+        `Imported ${count} ${count === 1 ? 'holding' : 'holdings'}`
+      );
+    } catch (error) {
+      this.errorHandler.handleError(error as Error);
+    }
+  }
+
+  getFieldLabel(field: ImportField): string {
+    return this.fields.find(f => f.field === field)?.label ?? field;
+  }
+
+  private reset() {
+    this.csv = '';
+    this.fileName = null;
+    this.preset = null;
+    this.preview = null;
+    this.validRowCount = 0;
+  }
+
+  // Mapping changes edit a copy, so the preset itself stays as it was
+  private setPreset(preset: ImportPreset) {
+    this.preset = { ...preset, columns: { ...preset.columns } };
+    this.updatePreview();
+  }
+
+  private updatePreview() {
+    if (!this.preset) {
+      return;
+    }
+    this.preview = this.holdingsImportService.preview(this.csv, this.preset);
+    this.validRowCount = this.preview.rows.filter(row => row.errors.length === 0).length;
+  }
+}
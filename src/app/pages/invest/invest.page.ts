@@ -1,20 +1,37 @@
 import { CommonModule } from '@angular/common';
 import { Component, OnInit, inject } from '@angular/core';
+import { BehaviorSubject, switchMap } from 'rxjs';
 import { Router, RouterModule } from '@angular/router';
 import { IonicModule } from '@ionic/angular';
 
 import {
+  AllocationChartComponent,
   HoldingsListComponent,
   MainPriceComponent,
-  OrderModalComponent,
-  StockCardComponent,
+  OpenOrdersListComponent,
+  MarketStatusBannerComponent,
+  TrendingStocksComponent,
 } from '../../components';
-import { Portfolio, Stock } from '../../core/interfaces';
+import {
+  Allocation,
+  AllocationGrouping,
+  AllocationSlice,
+  PendingOrder,
+  PerformancePeriod,
+  Portfolio,
+  Stock,
+  StockHolding,
+} from '../../core/interfaces';
+import { AllocationService } from '../../core/services/allocation.service';
 import { ErrorHandlerService } from '../../core/services/error-handler.service';
-import { LoadingService } from '../../core/services/loading.service';
-import { MockDataService } from '../../core/services/mock-data.service';
-import { ModalService } from '../../core/services/modal.service';
+import { FxRateService } from '../../core/services/fx-rate.service';
+import { MARKET_DATA_PROVIDER } from '../../core/services/market-data.token';
+import { PendingOrderService } from '../../core/services/pending-order.service';
+import { PerformanceService } from '../../core/services/performance.service';
 import { PortfolioService } from '../../core/services/portfolio.service';
+import { QuoteStoreService } from '../../core/services/quote-store.service';
+import { QuoteStreamService } from '../../core/services/quote-stream.service';
+import { TradingCalendarService } from '../../core/services/trading-calendar.service';
 
 @Component({
   selector: 'app-invest',
@@ -24,47 +41,74 @@ import { PortfolioService } from '../../core/services/portfolio.service';
     IonicModule,
     RouterModule,
     MainPriceComponent,
+    AllocationChartComponent,
     HoldingsListComponent,
-    OrderModalComponent,
-    StockCardComponent,
+    OpenOrdersListComponent,
+    MarketStatusBannerComponent,
+    TrendingStocksComponent,
   ],
   templateUrl: './invest.page.html',
 })
 export class InvestPage implements OnInit {
-  private mockDataService = inject(MockDataService);
+  private marketData = inject(MARKET_DATA_PROVIDER);
   private portfolioService = inject(PortfolioService);
-  private loadingService = inject(LoadingService);
+  private pendingOrderService = inject(PendingOrderService);
   private errorHandler = inject(ErrorHandlerService);
-  private modalService = inject(ModalService);
+  private tradingCalendarService = inject(TradingCalendarService);
+  private quoteStore = inject(QuoteStoreService);
+  private quoteStream = inject(QuoteStreamService);
+  private performanceService = inject(PerformanceService);
+  private fxRateService = inject(FxRateService);
+  private allocationService = inject(AllocationService);
   router = inject(Router);
 
+  marketStatus$ = this.tradingCalendarService.marketStatus$;
+  performancePeriod$ = new BehaviorSubject<PerformancePeriod>('1M');
+  performance$ = this.performancePeriod$.pipe(
+    switchMap(period => this.performanceService.getPerformance(period))
+  );
   portfolio: Portfolio | null = null;
+  currencies: string[] = [];
   trendingStocks: Stock[] = [];
-  isLoading = false;
+  openOrders: PendingOrder[] = [];
 
-  // Modal state
-  isOrderModalVisible = false;
-  selectedStock: Stock | null = null;
+  // Allocation breakdown, and the slice the holdings list is filtered to
+  allocationGrouping: AllocationGrouping = 'holding';
+  allocation: Allocation | null = null;
+  selectedSlice: AllocationSlice | null = null;
+  visibleHoldings: StockHolding[] = [];
+  private sectors: Record<string, string> = {};
+  private sectorRequests = new Set<string>();
 
   constructor() {}
 
-  async ngOnInit() {
-    await this.loadData();
+  ngOnInit() {
+    this.loadData();
     this.subscribeToPortfolio();
-    this.subscribeToModal();
+    this.subscribeToPendingOrders();
+    this.subscribeToQuotes();
+    this.subscribeToRates();
   }
 
-  private async loadData() {
-    try {
-      this.isLoading = true;
-      await this.loadingService.show('Loading portfolio...');
+  // Cached data renders straight away and is replaced when the refresh lands
+  private loadData() {
+    this.marketData.getTrending().subscribe({
+      next: trendingStocks => {
+        this.quoteStore.update(trendingStocks);
+        this.quoteStream.watch(trendingStocks.map(stock => stock.symbol));
+        this.trendingStocks = trendingStocks.map(stock => this.quoteStore.applyTo(stock));
+      },
+      error: error => this.errorHandler.handleError(error as Error),
+    });
 
-      this.trendingStocks = this.mockDataService.getTrendingStocks();
-    } catch (error) {
-      this.errorHandler.handleError(error as Error);
-    } finally {
-      this.isLoading = false;
-      await this.loadingService.hide();
+    // Check open limit/stop orders against the latest prices
+    const pendingOrders = this.pendingOrderService.getPendingOrders();
+    const symbols = [...new Set(pendingOrders.map(order => order.stock.symbol))];
+    if (symbols.length > 0) {
+      this.marketData.getQuotes(symbols).subscribe({
+        next: quotes => this.quoteStore.update(quotes),
+        error: error => this.errorHandler.handleError(error as Error, false),
+      });
     }
   }
 
@@ -73,6 +117,8 @@ export class InvestPage implements OnInit {
       next: portfolio => {
         if (portfolio) {
           this.portfolio = portfolio;
+          this.updateAllocation();
+          this.loadSectors(portfolio.holdings.map(h => h.stock.symbol));
         }
       },
       error: error => {
@@ -81,39 +127,89 @@ export class InvestPage implements OnInit {
     });
   }
 
-  private subscribeToModal() {
-    this.modalService.orderModalVisible$.subscribe(visible => {
-      this.isOrderModalVisible = visible;
+  private subscribeToPendingOrders() {
+    this.pendingOrderService.pendingOrders$.subscribe(orders => {
+      this.openOrders = orders;
+    });
+  }
+
+  private subscribeToQuotes() {
+    // Keep the trending cards on the latest streamed prices
+    this.quoteStore.quotes$.subscribe(() => {
+      this.trendingStocks = this.trendingStocks.map(stock => this.quoteStore.applyTo(stock));
     });
+  }
 
-    this.modalService.selectedStock$.subscribe(stock => {
-      this.selectedStock = stock;
+  private subscribeToRates() {
+    // Every currency with a rate can be chosen as the base currency
+    this.fxRateService.rates$.subscribe(() => {
+      this.currencies = this.fxRateService.getSupportedCurrencies();
     });
   }
 
-  navigateToStock(symbol: string) {
-    // Find the stock and open modal instead of navigating
-    const allStocks = this.mockDataService.getMockStocks();
-    const stock = allStocks.find(s => s.symbol === symbol);
-    if (stock) {
-      this.modalService.openOrderModal(stock);
+  onAllocationGroupingChange(grouping: AllocationGrouping) {
+    this.allocationGrouping = grouping;
+    this.selectedSlice = null;
+    this.updateAllocation();
+  }
+
+  onAllocationSliceSelect(slice: AllocationSlice | null) {
+    this.selectedSlice = slice;
+    this.updateAllocation();
+  }
+
+  private updateAllocation() {
+    const holdings = this.portfolio?.holdings ?? [];
+    this.allocation = this.allocationService.getAllocation(
+      holdings,
+      this.allocationGrouping,
+      this.sectors
+    );
+
+    // Keep the selected slice as values change, unless its group has gone
+    const selectedKey = this.selectedSlice?.key;
+    this.selectedSlice = this.allocation.slices.find(slice => slice.key === selectedKey) ?? null;
+    const symbols = this.selectedSlice?.symbols;
+    this.visibleHoldings = symbols
+      ? holdings.filter(holding => symbols.includes(holding.stock.symbol))
+      : holdings;
+  }
+
+  // Sectors come from fundamentals, fetched once per symbol
+  private loadSectors(symbols: string[]) {
+    const missing = symbols.filter(symbol => !this.sectorRequests.has(symbol));
+    if (missing.length === 0) {
+      return;
     }
+    missing.forEach(symbol => this.sectorRequests.add(symbol));
+
+    this.allocationService.getSectors(missing).subscribe({
+      next: sectors => {
+        this.sectors = { ...this.sectors, ...sectors };
+        this.updateAllocation();
+      },
+      error: error => this.errorHandler.handleError(error as Error, false),
+    });
   }
 
-  onOrderModalClosed() {
-    this.modalService.closeOrderModal();
+  navigateToStock(symbol: string) {
+    this.router.navigate(['/tabs/discover/stock', symbol]);
   }
 
-  async onOrderCompleted() {
-    // First update the modal state
-    this.isOrderModalVisible = false;
-    this.selectedStock = null;
+  navigateToMovers() {
+    this.router.navigate(['/tabs/discover/movers'], { queryParams: { tab: 'trending' } });
+  }
 
-    // Then update the stock data
-    this.modalService.updateStockAfterOrder();
+  onCancelOrder(id: string) {
+    this.pendingOrderService.cancelOrder(id);
+  }
 
-    // Force a refresh of the portfolio data
-    await this.loadData();
+  onBaseCurrencyChange(currency: string) {
+    try {
+      this.fxRateService.setBaseCurrency(currency);
+    } catch (error) {
+      this.errorHandler.handleError(error as Error);
+    }
   }
 
   getChangeClasses(change: number): string {
@@ -0,0 +1,168 @@
+import { CommonModule } from '@angular/common';
+import { Component, DestroyRef, OnInit, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { InfiniteScrollCustomEvent, IonicModule } from '@ionic/angular';
+import { EMPTY, Observable, catchError, map, switchMap } from 'rxjs';
+
+import { StockAvatarComponent } from '../../components/molecules/stock-avatar/stock-avatar.component';
+import { APP_CONSTANTS } from '../../core/constants/app.constants';
+import { MarketMoversCategory, Stock } from '../../core/interfaces';
+import { ErrorHandlerService } from '../../core/services/error-handler.service';
+import { MARKET_DATA_PROVIDER } from '../../core/services/market-data.token';
+import { QuoteStoreService } from '../../core/services/quote-store.service';
+import { QuoteStreamService } from '../../core/services/quote-stream.service';
+
+type MoversSort = 'rank' | 'changePercent' | 'price' | 'volume' | 'name';
+
+const MOVERS_TABS: { category: MarketMoversCategory; label: string }[] = [
+  { category: 'trending', label: 'Trending' },
+  { category: 'gainers', label: 'Top gainers' },
+  { category: 'losers', label: 'Top losers' },
+  { category: 'active', label: 'Most active' },
+];
+
+const SORT_OPTIONS: { value: MoversSort; label: string }[] = [
+  { value: 'rank', label: 'Ranking' },
+  { value: 'changePercent', label: 'Change %' },
+  { value: 'price', label: 'Price' },
+  { value: 'volume', label: 'Volume' },
+  { value: 'name', label: 'Symbol' },
+];
+
+@Component({
+  selector: 'app-market-movers',
+  standalone: true,
+  imports: [CommonModule, IonicModule, RouterModule, StockAvatarComponent],
+  templateUrl: './market-movers.page.html',
+})
+export class MarketMoversPage implements OnInit {
+  private marketData = inject(MARKET_DATA_PROVIDER);
+  private errorHandler = inject(ErrorHandlerService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private quoteStore = inject(QuoteStoreService);
+  private quoteStream = inject(QuoteStreamService);
+  private destroyRef = inject(DestroyRef);
+
+  readonly tabs = MOVERS_TABS;
+  readonly sortOptions = SORT_OPTIONS;
+
+  category: MarketMoversCategory = 'trending';
+  sortBy: MoversSort = 'rank';
+  isAscending = false;
+  isLoading = false;
+
+  // Ranked list from the provider, and the sorted slice shown so far
+  stocks: Stock[] = [];
+  visibleStocks: Stock[] = [];
+  private visibleCount = APP_CONSTANTS.MOVERS_PAGE_SIZE;
+
+  ngOnInit() {
+    // The tab is kept in the URL so "See all" can deep-link to it. Switching
+    // tabs cancels the request for the previous one.
+    this.route.queryParamMap
+      .pipe(
+        map(params => this.tabs.find(t => t.category === params.get('tab'))?.category),
+        switchMap(category => this.loadMovers(category ?? 'trending')),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(stocks => {
+        this.quoteStore.update(stocks);
+        this.stocks = stocks.map(stock => this.quoteStore.applyTo(stock));
+        this.isLoading = false;
+        this.updateVisibleStocks();
+      });
+
+    // Keep the list on the latest streamed prices
+    this.quoteStore.quotes$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      this.stocks = this.stocks.map(stock => this.quoteStore.applyTo(stock));
+      this.updateVisibleStocks();
+    });
+  }
+
+  get hasMore(): boolean {
+    return this.visibleCount < this.stocks.length;
+  }
+
+  selectTab(category: MarketMoversCategory) {
+    if (category === this.category) {
+      return;
+    }
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { tab: category },
+      replaceUrl: true,
+    });
+  }
+
+  onSortChange(event: Event) {
+    this.sortBy = (event.target as HTMLSelectElement).value as MoversSort;
+    // Symbols read best A–Z; everything else biggest first
+    this.isAscending = this.sortBy === 'name';
+    this.resetPaging();
+  }
+
+  toggleSortDirection() {
+    this.isAscending = !this.isAscending;
+    this.resetPaging();
+  }
+
+  onLoadMore(event: Event) {
+    this.visibleCount += APP_CONSTANTS.MOVERS_PAGE_SIZE;
+    this.updateVisibleStocks();
+    (event as InfiniteScrollCustomEvent).target.complete();
+  }
+
+  navigateToStock(symbol: string) {
+    this.router.navigate(['/tabs/discover/stock', symbol]);
+  }
+
+  getChangeClasses(change: number): string {
+    if (change > 0) {
+      return 'text-success-500';
+    } else if (change < 0) {
+      return 'text-danger-500';
+    }
+    return 'text-gray-500';
+  }
+
+  /** Clears the list and fetches the category; a failed fetch completes without a value */
+  private loadMovers(category: MarketMoversCategory): Observable<Stock[]> {
+    this.category = category;
+    this.isLoading = true;
+    this.stocks = [];
+    this.resetPaging();
+
+    return this.marketData.getMovers(category).pipe(
+      catchError(error => {
+        this.isLoading = false;
+        this.errorHandler.handleError(error as Error);
+        return EMPTY;
+      })
+    );
+  }
+
+  private resetPaging() {
+    this.visibleCount = APP_CONSTANTS.MOVERS_PAGE_SIZE;
+    this.updateVisibleStocks();
+  }
+
+  private updateVisibleStocks() {
+    this.visibleStocks = this.sortStocks(this.stocks).slice(0, this.visibleCount);
+    this.quoteStream.watch(this.visibleStocks.map(stock => stock.symbol));
+  }
+
+  private sortStocks(stocks: Stock[]): Stock[] {
+    const direction = this.isAscending ? 1 : -1;
+    const sortBy = this.sortBy;
+    if (sortBy === 'rank') {
+      // The provider's ranking is best first
+      return this.isAscending ? [...stocks].reverse() : stocks;
+    }
+    if (sortBy === 'name') {
+      return [...stocks].sort((a, b) => a.symbol.localeCompare(b.symbol) * direction);
+    }
+    return [...stocks].sort((a, b) => (a[sortBy] - b[sortBy]) * direction);
+  }
+}
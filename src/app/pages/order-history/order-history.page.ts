@@ -0,0 +1,58 @@
+import { CommonModule } from '@angular/common';
+import { Component, DestroyRef, OnInit, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { RouterModule } from '@angular/router';
+import { IonicModule } from '@ionic/angular';
+
+import { StockAvatarComponent } from '../../components/molecules/stock-avatar/stock-avatar.component';
+import { Order, OrderStatus } from '../../core/interfaces';
+import { OrderHistoryService } from '../../core/services/order-history.service';
+
+@Component({
+  selector: 'app-order-history',
+  standalone: true,
+  imports: [CommonModule, IonicModule, RouterModule, StockAvatarComponent],
+  templateUrl: './order-history.page.html',
+})
+export class OrderHistoryPage implements OnInit {
+  private orderHistoryService = inject(OrderHistoryService);
+  private destroyRef = inject(DestroyRef);
+
+  orders: Order[] = [];
+  expandedOrderId: string | null = null;
+
+  private readonly statusLabels: Record<OrderStatus, string> = {
+    created: 'Created',
+    submitted: 'Submitted',
+    partially_filled: 'Partially filled',
+    filled: 'Filled',
+    rejected: 'Rejected',
+    cancelled: 'Cancelled',
+  };
+
+  ngOnInit() {
+    this.orderHistoryService.orders$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(orders => {
+      this.orders = orders;
+    });
+  }
+
+  toggleOrder(id: string) {
+    this.expandedOrderId = this.expandedOrderId === id ? null : id;
+  }
+
+  getStatusLabel(status: OrderStatus): string {
+    return this.statusLabels[status];
+  }
+
+  getStatusClasses(status: OrderStatus): string {
+    switch (status) {
+      case 'filled':
+        return 'text-success-500';
+      case 'rejected':
+      case 'cancelled':
+        return 'text-danger-500';
+      default:
+        return 'text-gray-500';
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { CommonModule } from '@angular/common';
+import { Component, DestroyRef, OnInit, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { RouterModule } from '@angular/router';
+import { IonicModule } from '@ionic/angular';
+
+import { FinancialYear, FinancialYearStart, RealizedGainsReport } from '../../core/interfaces';
+import { ErrorHandlerService } from '../../core/services/error-handler.service';
+import { ExportService } from '../../core/services/export.service';
+import { LedgerService } from '../../core/services/ledger.service';
+import { TaxReportService } from '../../core/services/tax-report.service';
+
+@Component({
+  selector: 'app-statements',
+  standalone: true,
+  imports: [CommonModule, IonicModule, RouterModule],
+  templateUrl: './statements.page.html',
+})
+export class StatementsPage implements OnInit {
+  private exportService = inject(ExportService);
+  private ledgerService = inject(LedgerService);
+  private taxReportService = inject(TaxReportService);
+  private errorHandler = inject(ErrorHandlerService);
+  private destroyRef = inject(DestroyRef);
+
+  readonly months = [
+    'January',
+    'February',
+    'March',
+    'April',
+    'May',
+    'June',
+    'July',
+    'August',
+    'September',
+    'October',
+    'November',
+    'December',
+  ];
+  readonly days = Array.from({ length: 31 }, (_, i) => i + 1);
+
+  financialYearStart: FinancialYearStart = this.taxReportService.getFinancialYearStart();
+  financialYears: FinancialYear[] = [];
+  selectedYear: FinancialYear | null = null;
+  report: RealizedGainsReport | null = null;
+  isExporting = false;
+
+  ngOnInit() {
+    this.taxReportService.financialYearStart$
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(start => {
+        this.financialYearStart = start;
+        this.loadFinancialYears();
+      });
+
+    // Sales and corporate actions change the gains, so rebuild the report with the ledger
+    this.ledgerService.entries$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      this.loadFinancialYears();
+    });
+  }
+
+  onFinancialYearStartMonthChange(event: Event) {
+    const select = event.target as HTMLSelectElement;
+    if (!this.setFinancialYearStart({ ...this.financialYearStart, month: Number(select.value) })) {
+      select.value = String(this.financialYearStart.month);
+    }
+  }
+
+  onFinancialYearStartDayChange(event: Event) {
+    const select = event.target as HTMLSelectElement;
+    if (!this.setFinancialYearStart({ ...this.financialYearStart, day: Number(select.value) })) {
+      select.value = String(this.financialYearStart.day);
+    }
+  }
+
+  onFinancialYearChange(event: Event) {
+    const label = (event.target as HTMLSelectElement).value;
+    this.selectedYear = this.financialYears.find(year => year.label === label) ?? null;
+    this.updateReport();
+  }
+
+  exportLedger() {
+    this.runExport(() => this.exportService.exportLedger());
+  }
+
+  exportHoldings() {
+    this.runExport(() => this.exportService.exportHoldings());
+  }
+
+  exportRealizedGains() {
+    const year = this.selectedYear;
+    if (year) {
+      this.runExport(() => this.exportService.exportRealizedGains(year));
+    }
+  }
+
+  /** Returns false if the date isn't in every year */
+  private setFinancialYearStart(start: FinancialYearStart): boolean {
+    try {
+      this.taxReportService.setFinancialYearStart(start);
+      return true;
+    } catch (error) {
+      this.errorHandler.handleError(error as Error);
+      return false;
+    }
+  }
+
+  private async runExport(exportFile: () => Promise<void>) {
+    this.isExporting = true;
+    try {
+      await exportFile();
+    } catch (error) {
+      this.errorHandler.handleError(error as Error);
+    } finally {
+      this.isExporting = false;
+    }
+  }
+
+  private loadFinancialYears() {
+    this.financialYears = this.taxReportService.getFinancialYears();
+    // Keep the chosen year if it still exists, otherwise show the current one
+    const label = this.selectedYear?.label;
+    this.selectedYear =
+      this.financialYears.find(year => year.label === label) ?? this.financialYears[0] ?? null;
+    this.updateReport();
+  }
+
+  private updateReport() {
+    this.report = this.selectedYear
+      ? this.taxReportService.getRealizedGains(this.selectedYear)
+      : null;
+  }
+}
@@ -0,0 +1,301 @@
+import { CommonModule } from '@angular/common';
+import { Component, DestroyRef, OnInit, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { IonicModule } from '@ionic/angular';
+import {
+  BehaviorSubject,
+  EMPTY,
+  Observable,
+  catchError,
+  combineLatest,
+  map,
+  shareReplay,
+  switchMap,
+  tap,
+} from 'rxjs';
+
+import {
+  ChartMode,
+  KeyStatsComponent,
+  OrderModalComponent,
+  PriceChartComponent,
+} from '../../components';
+import { StockAvatarComponent } from '../../components/molecules/stock-avatar/stock-avatar.component';
+import {
+  CostBasisMethod,
+  Fundamentals,
+  HistoryRange,
+  LedgerEntry,
+  LedgerEntryType,
+  OrderSide,
+  Position,
+  PriceBar,
+  Stock,
+  StockHolding,
+} from '../../core/interfaces';
+import { ErrorHandlerService } from '../../core/services/error-handler.service';
+import { LedgerService } from '../../core/services/ledger.service';
+import { MARKET_DATA_PROVIDER } from '../../core/services/market-data.token';
+import { ModalService } from '../../core/services/modal.service';
+import { PortfolioService } from '../../core/services/portfolio.service';
+import { QuoteStoreService } from '../../core/services/quote-store.service';
+import { QuoteStreamService } from '../../core/services/quote-stream.service';
+
+@Component({
+  selector: 'app-stock-detail',
+  standalone: true,
+  imports: [
+    CommonModule,
+    IonicModule,
+    RouterModule,
+    KeyStatsComponent,
+    OrderModalComponent,
+    PriceChartComponent,
+    StockAvatarComponent,
+  ],
+  templateUrl: './stock-detail.page.html',
+})
+export class StockDetailPage implements OnInit {
+  private route = inject(ActivatedRoute);
+  private marketData = inject(MARKET_DATA_PROVIDER);
+  private quoteStore = inject(QuoteStoreService);
+  private quoteStream = inject(QuoteStreamService);
+  private portfolioService = inject(PortfolioService);
+  private ledgerService = inject(LedgerService);
+  private modalService = inject(ModalService);
+  private errorHandler = inject(ErrorHandlerService);
+  private destroyRef = inject(DestroyRef);
+
+  symbol = '';
+  stock: Stock | null = null;
+  holding: StockHolding | undefined;
+  position: Position | undefined;
+  costBasisMethod: CostBasisMethod = this.ledgerService.getCostBasisMethod();
+  costBasisMethods: { value: CostBasisMethod; label: string }[] = [
+    { value: 'fifo', label: 'FIFO' },
+    { value: 'average', label: 'Average' },
+  ];
+  // Every trade and corporate action on the shares, newest first
+  holdingHistory: LedgerEntry[] = [];
+  historyLabels: Record<LedgerEntryType, string> = {
+    buy: 'Bought',
+    sell: 'Sold',
+    fee: 'Fee',
+    dividend: 'Dividend',
+    transfer_in: 'Transferred in',
+    transfer_out: 'Transferred out',
+    split: 'Stock split',
+    symbol_change: 'Symbol change',
+    delisting: 'Delisted',
+  };
+  history: PriceBar[] = [];
+  chartBars: PriceBar[] = [];
+  chartRange: HistoryRange = '1D';
+  private chartRange$ = new BehaviorSubject<HistoryRange>(this.chartRange);
+  chartMode: ChartMode = 'line';
+  isChartLoading = false;
+  fundamentals: Fundamentals | null = null;
+  isFundamentalsLoading = false;
+  isLoading = false;
+  isNotFound = false;
+
+  // Modal state
+  isOrderModalVisible = false;
+  orderSide: OrderSide = 'buy';
+
+  ngOnInit() {
+    // Root services outlive the page, so every subscription ends with it. Each
+    // request follows the route, and moving to another symbol cancels the
+    // previous symbol's requests so a late response can't overwrite the page.
+    const symbol$ = this.route.paramMap.pipe(
+      map(params => (params.get('symbol') ?? '').toUpperCase()),
+      tap(symbol => this.resetStock(symbol)),
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+    this.loadQuote(symbol$);
+    this.loadDayHistory(symbol$);
+    this.loadChart(symbol$);
+    this.loadFundamentals(symbol$);
+
+    this.portfolioService.portfolio$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      this.holding = this.portfolioService.getHolding(this.symbol);
+      this.position = this.ledgerService.getPosition(this.symbol);
+      this.holdingHistory = this.getHoldingHistory(this.symbol);
+    });
+
+    this.ledgerService.costBasisMethod$
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(method => {
+        this.costBasisMethod = method;
+      });
+
+    this.quoteStore.quotes$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      if (this.stock) {
+        this.stock = this.quoteStore.applyTo(this.stock);
+      }
+    });
+
+    this.modalService.orderModalVisible$
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(visible => {
+        this.isOrderModalVisible = visible;
+      });
+  }
+
+  get previousClose(): number {
+    return this.stock ? this.stock.price - this.stock.change : 0;
+  }
+
+  get dayOpen(): number | undefined {
+    return this.history[0]?.open;
+  }
+
+  get dayHigh(): number | undefined {
+    return this.history.length ? Math.max(...this.history.map(bar => bar.high)) : undefined;
+  }
+
+  get dayLow(): number | undefined {
+    return this.history.length ? Math.min(...this.history.map(bar => bar.low)) : undefined;
+  }
+
+  /** Switches how the cost of shares sold is worked out, for every holding */
+  onCostBasisMethodChange(method: CostBasisMethod) {
+    try {
+      this.ledgerService.setCostBasisMethod(method);
+    } catch (error) {
+      this.errorHandler.handleError(error as Error);
+    }
+  }
+
+  onChartRangeChange(range: HistoryRange) {
+    this.chartRange = range;
+    this.chartRange$.next(range);
+  }
+
+  openOrder(side: OrderSide) {
+    if (!this.stock) {
+      return;
+    }
+    this.orderSide = side;
+    this.modalService.openOrderModal(this.stock);
+  }
+
+  onOrderModalClosed() {
+    this.modalService.closeOrderModal();
+  }
+
+  onOrderCompleted() {
+    this.modalService.closeOrderModal();
+  }
+
+  getChangeClasses(change: number): string {
+    if (change > 0) {
+      return 'text-success-500';
+    } else if (change < 0) {
+      return 'text-danger-500';
+    }
+    return 'text-gray-500';
+  }
+
+  private resetStock(symbol: string) {
+    this.symbol = symbol;
+    this.stock = null;
+    this.history = [];
+    this.chartBars = [];
+    this.fundamentals = null;
+    this.isNotFound = false;
+    this.isLoading = true;
+    this.isFundamentalsLoading = true;
+    this.holding = this.portfolioService.getHolding(symbol);
+    this.position = this.ledgerService.getPosition(symbol);
+    this.holdingHistory = this.getHoldingHistory(symbol);
+  }
+
+  private loadQuote(symbol$: Observable<string>) {
+    symbol$
+      .pipe(
+        switchMap(symbol =>
+          this.marketData.getQuote(symbol).pipe(
+            catchError(() => {
+              this.isNotFound = true;
+              this.isLoading = false;
+              return EMPTY;
+            })
+          )
+        ),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(stock => {
+        this.quoteStore.update([stock]);
+        this.quoteStream.watch([stock.symbol]);
+        this.stock = this.quoteStore.applyTo(stock);
+        this.isLoading = false;
+      });
+  }
+
+  /** Today's bars feed the key stats whatever range the chart shows */
+  private loadDayHistory(symbol$: Observable<string>) {
+    symbol$
+      .pipe(
+        switchMap(symbol =>
+          this.marketData.getHistory(symbol, '1D').pipe(
+            catchError(error => {
+              this.errorHandler.handleError(error as Error, false);
+              return EMPTY;
+            })
+          )
+        ),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(history => (this.history = history));
+  }
+
+  private getHoldingHistory(symbol: string): LedgerEntry[] {
+    return [...this.ledgerService.getHistory(symbol)].sort((a, b) =>
+      b.timestamp.localeCompare(a.timestamp)
+    );
+  }
+
+  private loadFundamentals(symbol$: Observable<string>) {
+    symbol$
+      .pipe(
+        switchMap(symbol =>
+          this.marketData.getFundamentals(symbol).pipe(
+            // Key stats are optional; the placeholder explains they're unavailable
+            catchError(() => {
+              this.isFundamentalsLoading = false;
+              return EMPTY;
+            })
+          )
+        ),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(fundamentals => {
+        this.fundamentals = fundamentals;
+        this.isFundamentalsLoading = false;
+      });
+  }
+
+  /** A new symbol or range cancels the request for the previous one */
+  private loadChart(symbol$: Observable<string>) {
+    combineLatest([symbol$, this.chartRange$])
+      .pipe(
+        tap(() => (this.isChartLoading = true)),
+        switchMap(([symbol, range]) =>
+          this.marketData.getHistory(symbol, range).pipe(
+            catchError(error => {
+              this.isChartLoading = false;
+              this.errorHandler.handleError(error as Error, false);
+              return EMPTY;
+            })
+          )
+        ),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(bars => {
+        this.chartBars = bars;
+        this.isChartLoading = false;
+      });
+  }
+}
@@ -14,6 +14,31 @@ export const routes: Routes = [
         path: 'discover',
         loadComponent: () => import('../pages/discover/discover.page').then(m => m.DiscoverPage),
       },
+      {
+        path: 'discover/movers',
+        loadComponent: () =>
+          import('../pages/market-movers/market-movers.page').then(m => m.MarketMoversPage),
+      },
+      {
+        path: 'discover/stock/:symbol',
+        loadComponent: () =>
+          import('../pages/stock-detail/stock-detail.page').then(m => m.StockDetailPage),
+      },
+      {
+        path: 'orders',
+        loadComponent: () =>
+          import('../pages/order-history/order-history.page').then(m => m.OrderHistoryPage),
+      },
+      {
+        path: 'statements',
+        loadComponent: () =>
+          import('../pages/statements/statements.page').then(m => m.StatementsPage),
+      },
+      {
+        path: 'import',
+        loadComponent: () =>
+          import('../pages/import-holdings/import-holdings.page').then(m => m.ImportHoldingsPage),
+      },
       {
         path: '',
         redirectTo: '/tabs/invest',
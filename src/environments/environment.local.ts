@@ -0,0 +1,14 @@
+import { MarketDataSource } from '../app/core/interfaces';
+
+// Development build against the stand-in server (`npm run mock-server`)
+export const environment = {
+  production: false,
+  marketData: {
+    source: 'http' as MarketDataSource,
+    baseUrl: 'http://localhost:3001/api',
+  },
+  quoteStream: {
+    enabled: true,
+    url: 'ws://localhost:3001/stream',
+  },
+};
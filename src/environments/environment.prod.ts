@@ -1,3 +1,15 @@
+import { MarketDataSource } from '../app/core/interfaces';
+
 export const environment = {
   production: true,
+  marketData: {
+    // Switch to 'http' once the production backend is available
+    source: 'mock' as MarketDataSource,
+    baseUrl: '/api',
+  },
+  quoteStream: {
+    // Enable once the production feed is available
+    enabled: false,
+    url: '/stream',
+  },
 };
@@ -2,8 +2,19 @@
 // `ng build` replaces `environment.ts` with `environment.prod.ts`.
 // The list of file replacements can be found in `angular.json`.
 
+import { MarketDataSource } from '../app/core/interfaces';
+
 export const environment = {
   production: false,
+  marketData: {
+    source: 'mock' as MarketDataSource,
+    baseUrl: 'http://localhost:3001/api',
+  },
+  quoteStream: {
+    // The mock source has no live feed; environment.local.ts streams from the stand-in server
+    enabled: false,
+    url: 'ws://localhost:3001/stream',
+  },
 };
 
 /*